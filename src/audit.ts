@@ -0,0 +1,76 @@
+import * as db from './db.js';
+import type { AuditEntry } from './db.js';
+
+export type AuditSource = 'command' | 'button' | 'modal' | 'message' | 'schedule' | 'webhook' | 'file' | 'budget';
+
+export type AuditAction =
+  | 'loop.start'
+  | 'loop.stop'
+  | 'loop.approve'
+  | 'loop.approve_override'
+  | 'loop.skip'
+  | 'loop.resume'
+  | 'loop.retry'
+  | 'loop.request_changes'
+  | 'loop.guidance'
+  | 'task.create'
+  | 'schedule.add'
+  | 'schedule.remove'
+  | 'role.grant'
+  | 'role.revoke'
+  | 'key.set'
+  | 'key.remove'
+  | 'config.reload'
+  | 'audit.export';
+
+export interface AuditContext {
+  source: AuditSource;
+  loop?: db.Loop;
+  // owner/name, taken from the loop when one is given
+  repo?: string;
+  issue?: number | null;
+  pr?: number | null;
+  detail?: Record<string, unknown>;
+}
+
+/**
+ * Appends an entry to the audit log. A failed write is logged rather than
+ * thrown - the action it describes has usually already happened.
+ */
+export function record(actor: string, action: AuditAction, context: AuditContext): void {
+  const { loop } = context;
+  
+  try {
+    db.addAuditEntry({
+      actor,
+      action,
+      source: context.source,
+      loop_id: loop?.id ?? null,
+      repo: context.repo ?? (loop ? `${loop.repo_owner}/${loop.repo_name}` : null),
+      issue_number: context.issue !== undefined ? context.issue : loop?.current_issue ?? null,
+      pr_number: context.pr !== undefined ? context.pr : loop?.current_pr ?? null,
+      detail: context.detail ? JSON.stringify(context.detail) : null,
+    });
+  } catch (err) {
+    console.error(`Failed to record audit entry ${action} by ${actor}:`, err);
+  }
+}
+
+const CSV_COLUMNS: (keyof AuditEntry)[] = ['id', 'timestamp', 'actor', 'action', 'source', 'loop_id', 'repo', 'issue_number', 'pr_number', 'detail'];
+
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCSV(entries: AuditEntry[]): string {
+  const rows = entries.map(e => CSV_COLUMNS.map(c => csvField(e[c])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
+
+export function toJSON(entries: AuditEntry[]): string {
+  return JSON.stringify(entries.map(e => ({
+    ...e,
+    detail: e.detail ? JSON.parse(e.detail) : null,
+  })), null, 2);
+}
@@ -1,6 +1,17 @@
-import { getConfig } from './config.js';
+import { getConfig, getRepo, type Repo } from './config.js';
+import * as db from './db.js';
 
 export type Role = 'admin' | 'operator' | 'viewer';
+export type RepoAction = 'start' | 'approve' | 'create_task';
+export type LoopAccess = 'allowed' | 'confirm' | 'denied';
+
+export interface RepoRef {
+  owner: string;
+  name: string;
+}
+
+// Members of the Slack user groups named in repo access lists, refreshed by refreshUserGroups
+const groupMembers = new Map<string, Set<string>>();
 
 export function getUserRole(userId: string): Role {
   const config = getConfig();
@@ -9,6 +20,12 @@ export function getUserRole(userId: string): Role {
     return 'admin';
   }
   
+  // Grants made from Slack sit on top of the config lists (expired ones are ignored)
+  const grant = db.getRoleGrant(userId);
+  if (grant) {
+    return grant.role;
+  }
+  
   if (config.auth.operators.includes(userId)) {
     return 'operator';
   }
@@ -16,33 +33,93 @@ export function getUserRole(userId: string): Role {
   return 'viewer';
 }
 
-export function canStartLoop(userId: string): boolean {
+function isOperatorOrAdmin(userId: string): boolean {
   const role = getUserRole(userId);
   return role === 'admin' || role === 'operator';
 }
 
-export function canStopLoop(userId: string, loopStartedBy?: string): boolean {
-  const role = getUserRole(userId);
-  if (role === 'admin') return true;
-  if (role === 'operator') {
-    // Operators can stop their own loops or any loop
-    return true;
+/**
+ * Whether the repo's access list lets this user take the action. Only narrows
+ * what operators can do - admins and repos without a list are unrestricted.
+ */
+function allowedOnRepo(userId: string, repoRef: RepoRef | undefined, action: RepoAction): boolean {
+  if (!repoRef || getUserRole(userId) === 'admin') return true;
+  
+  const repo = getRepo(repoRef.owner, repoRef.name);
+  const allowed = repo?.access[action];
+  if (!allowed) return true;
+  
+  return allowed.some(entry => entry === userId || groupMembers.get(entry)?.has(userId));
+}
+
+export function canStartLoop(userId: string, repo?: RepoRef): boolean {
+  return isOperatorOrAdmin(userId) && allowedOnRepo(userId, repo, 'start');
+}
+
+/**
+ * How auth.loop_control applies to a user acting on a loop: starters and admins
+ * are always allowed, everyone else is allowed, asked to confirm, or denied.
+ */
+export function loopAccess(userId: string, loopStartedBy?: string): LoopAccess {
+  if (!loopStartedBy || loopStartedBy === userId || getUserRole(userId) === 'admin') {
+    return 'allowed';
+  }
+  
+  switch (getConfig().auth.loop_control) {
+    case 'owner': return 'denied';
+    case 'confirm': return 'confirm';
+    default: return 'allowed';
   }
-  return false;
 }
 
-export function canCreateTask(userId: string): boolean {
-  const role = getUserRole(userId);
-  return role === 'admin' || role === 'operator';
+export function canStopLoop(userId: string, loopStartedBy?: string): boolean {
+  return isOperatorOrAdmin(userId) && loopAccess(userId, loopStartedBy) !== 'denied';
+}
+
+export function canCreateTask(userId: string, repo?: RepoRef): boolean {
+  return isOperatorOrAdmin(userId) && allowedOnRepo(userId, repo, 'create_task');
 }
 
 export function canEditConfig(userId: string): boolean {
   return getUserRole(userId) === 'admin';
 }
 
-export function canApprove(userId: string): boolean {
-  const role = getUserRole(userId);
-  return role === 'admin' || role === 'operator';
+export function canApprove(userId: string, repo?: RepoRef): boolean {
+  return isOperatorOrAdmin(userId) && allowedOnRepo(userId, repo, 'approve');
+}
+
+// Logs and transcripts can hold anything the agent saw, so only those who run or review the repo's loops see them
+export function canViewLoopLogs(userId: string, repo?: RepoRef): boolean {
+  return canStartLoop(userId, repo) || canApprove(userId, repo);
+}
+
+// Configured repos the user may take the action on, for repo pickers
+export function reposForUser(userId: string, action: RepoAction): Repo[] {
+  if (!isOperatorOrAdmin(userId)) return [];
+  return getConfig().repos.filter(r => allowedOnRepo(userId, r, action));
+}
+
+export function loopRepo(loop: db.Loop): RepoRef {
+  return { owner: loop.repo_owner, name: loop.repo_name };
+}
+
+// Loads members of every user group referenced by a repo access list
+export async function refreshUserGroups(client: any): Promise<void> {
+  const groups = new Set<string>();
+  for (const repo of getConfig().repos) {
+    for (const list of Object.values(repo.access)) {
+      list?.filter(entry => entry.startsWith('S')).forEach(entry => groups.add(entry));
+    }
+  }
+  
+  for (const group of groups) {
+    try {
+      const result = await client.usergroups.users.list({ usergroup: group });
+      groupMembers.set(group, new Set(result.users || []));
+    } catch (err) {
+      console.error(`Failed to load members of user group ${group}:`, err);
+    }
+  }
 }
 
 export function formatRole(role: Role): string {
@@ -1,12 +1,53 @@
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, watch } from 'fs';
+import { basename, dirname, resolve } from 'path';
 import { parse } from 'yaml';
 import { z } from 'zod';
+import { isValidCron } from './cron.js';
+import { getStoredKey } from './keys.js';
+
+const ScheduleSchema = z.object({
+  cron: z.string().refine(isValidCron, { message: 'Invalid cron expression' }),
+  labels: z.array(z.string()).default([]),
+  mode: z.enum(['auto', 'approval']).default('auto'),
+  iterations: z.number().default(10),
+  // Defaults to the repo's channel
+  channel: z.string().optional(),
+  // Slack user the loop runs as (their Factory key is used)
+  run_as: z.string().optional(),
+});
+
+// Limits on droid time and Factory credits; a missing value means no limit
+const BudgetSchema = z.object({
+  max_minutes: z.number().optional(),
+  max_credits: z.number().optional(),
+});
 
 const RepoSchema = z.object({
   owner: z.string(),
   name: z.string(),
   default_branch: z.string().default('main'),
   prompt_path: z.string().default('prompt.md'),
+  // Checks that must pass before an approval can merge (empty = every reported check)
+  required_checks: z.array(z.string()).default([]),
+  // Slack channel ID for loops not started from Slack (schedules, webhooks)
+  channel: z.string().optional(),
+  // Who may act on this repo: Slack user IDs (U...) or user group IDs (S...).
+  // A missing list means every operator; admins are never restricted.
+  access: z.object({
+    start: z.array(z.string()).optional(),
+    approve: z.array(z.string()).optional(),
+    create_task: z.array(z.string()).optional(),
+  }).default({}),
+  schedules: z.array(ScheduleSchema).default([]),
+  // Watchdog for hung droid runs, in minutes (0 = no limit)
+  timeouts: z.object({
+    // Wall-clock time for one iteration
+    iteration_minutes: z.number().default(120),
+    // Time without any output from droid
+    silence_minutes: z.number().default(30),
+  }).default({}),
+  // Daily limits for this repo, in place of budgets.repo
+  budget: BudgetSchema.optional(),
 });
 
 const ConfigSchema = z.object({
@@ -24,6 +65,9 @@ const ConfigSchema = z.object({
   auth: z.object({
     admins: z.array(z.string()).default([]),
     operators: z.array(z.string()).default([]),
+    // Who may stop, resume or approve a loop someone else started:
+    // anyone (any operator), owner (starter or admin), confirm (anyone, after a confirmation)
+    loop_control: z.enum(['anyone', 'owner', 'confirm']).default('anyone'),
   }),
   repos: z.array(RepoSchema).default([]),
   user_keys: z.record(z.string()).default({}),
@@ -33,26 +77,237 @@ const ConfigSchema = z.object({
   }).default({}),
   notifications: z.object({
     update_interval_ms: z.number().default(5000),
+    progress_lines: z.number().default(10),
+    checks_poll_ms: z.number().default(30000),
     thread_updates: z.boolean().default(true),
     pin_status: z.boolean().default(true),
   }).default({}),
+  webhook: z.object({
+    enabled: z.boolean().default(false),
+    port: z.number().default(3000),
+    path: z.string().default('/github/webhook'),
+    secret: z.string().optional(),
+    // Adding this label to an issue starts a loop on it
+    trigger_label: z.string().default('loop'),
+    // Slack user webhook loops run as (their Factory key is used)
+    run_as: z.string().optional(),
+  }).refine(w => !w.enabled || !!w.secret, {
+    message: 'required when webhook.enabled is true',
+    path: ['secret'],
+  }).default({}),
+  recovery: z.object({
+    auto_resume: z.boolean().default(false),
+  }).default({}),
+  budgets: z.object({
+    // Totals for a single loop, however long it runs
+    loop: BudgetSchema.default({}),
+    // Per UTC day, across all of a user's loops
+    user: BudgetSchema.default({}),
+    // Per UTC day, across all loops on a repo
+    repo: BudgetSchema.default({}),
+  }).default({}),
+  transcripts: z.object({
+    // Raw droid output is deleted this many days after the iteration finished (0 = keep forever)
+    retention_days: z.number().default(30),
+  }).default({}),
+  dashboard: z.object({
+    enabled: z.boolean().default(false),
+    port: z.number().default(3001),
+    // Public URL of the dashboard, used in links the bot posts
+    base_url: z.string().optional(),
+    // Static token for bookmarks and scripts (Authorization: Bearer or ?token=)
+    token: z.string().optional(),
+    // Signs the expiring links the bot posts in Slack
+    secret: z.string().optional(),
+    link_ttl_hours: z.number().default(24),
+  }).refine(d => !d.enabled || !!d.token || !!d.secret, {
+    message: 'dashboard.token or dashboard.secret is required when dashboard.enabled is true',
+    path: ['secret'],
+  }).default({}),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 export type Repo = z.infer<typeof RepoSchema>;
+export type Budget = z.infer<typeof BudgetSchema>;
 
-let config: Config | null = null;
+// How an environment variable's text becomes a config value
+type EnvKind = 'string' | 'number' | 'boolean' | 'list' | 'map' | 'json';
 
-export function loadConfig(path = 'config.yaml'): Config {
-  if (config) return config;
+export interface EnvSetting {
+  // Dotted config path, e.g. concurrency.max_per_repo
+  key: string;
+  name: string;
+  kind: EnvKind;
+}
 
-  if (!existsSync(path)) {
-    throw new Error(`Config file not found: ${path}. Copy config.example.yaml to config.yaml`);
+// Names deployments already use; every other setting is LOOP_<SECTION>__<FIELD>
+const ENV_ALIASES: Record<string, string> = {
+  'slack.app_token': 'SLACK_APP_TOKEN',
+  'slack.bot_token': 'SLACK_BOT_TOKEN',
+  'slack.signing_secret': 'SLACK_SIGNING_SECRET',
+  'github.token': 'GITHUB_TOKEN',
+  'factory.default_api_key': 'FACTORY_API_KEY',
+  'webhook.secret': 'GITHUB_WEBHOOK_SECRET',
+};
+
+function unwrapSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  while (schema instanceof z.ZodDefault || schema instanceof z.ZodOptional || schema instanceof z.ZodEffects) {
+    schema = schema instanceof z.ZodEffects ? schema.innerType() : schema._def.innerType;
+  }
+  return schema;
+}
+
+// One setting per leaf of the schema - arrays and records are set whole
+function collectEnvSettings(schema: z.ZodTypeAny, path: string[] = []): EnvSetting[] {
+  const inner = unwrapSchema(schema);
+  if (inner instanceof z.ZodObject) {
+    return Object.entries(inner.shape as z.ZodRawShape).flatMap(([field, child]) => collectEnvSettings(child, [...path, field]));
+  }
+  
+  const kind: EnvKind = inner instanceof z.ZodNumber ? 'number'
+    : inner instanceof z.ZodBoolean ? 'boolean'
+    : inner instanceof z.ZodArray ? (unwrapSchema(inner.element) instanceof z.ZodString ? 'list' : 'json')
+    : inner instanceof z.ZodRecord ? 'map'
+    : 'string';
+  const key = path.join('.');
+  
+  return [{ key, name: ENV_ALIASES[key] || `LOOP_${path.map(p => p.toUpperCase()).join('__')}`, kind }];
+}
+
+export const ENV_SETTINGS: EnvSetting[] = collectEnvSettings(ConfigSchema);
+
+function parseEnvValue(setting: EnvSetting, raw: string): unknown {
+  const value = raw.trim();
+  
+  switch (setting.kind) {
+    case 'number': {
+      const n = Number(value);
+      if (value === '' || isNaN(n)) throw new Error('expected a number');
+      return n;
+    }
+    case 'boolean':
+      if (/^(true|1|yes|on)$/i.test(value)) return true;
+      if (/^(false|0|no|off)$/i.test(value)) return false;
+      throw new Error('expected true or false');
+    case 'list':
+      // Comma-separated, or a JSON array
+      return value.startsWith('[') ? JSON.parse(value) : value.split(',').map(v => v.trim()).filter(Boolean);
+    case 'map':
+      // key=value pairs separated by commas, or a JSON object
+      if (value.startsWith('{')) return JSON.parse(value);
+      return Object.fromEntries(value.split(',').filter(pair => pair.trim()).map(pair => {
+        const separator = pair.indexOf('=');
+        if (separator < 1) throw new Error(`expected key=value, got "${pair.trim()}"`);
+        return [pair.slice(0, separator).trim(), pair.slice(separator + 1).trim()];
+      }));
+    case 'json':
+      return JSON.parse(value);
+    default:
+      return raw;
   }
+}
 
-  const raw = readFileSync(path, 'utf-8');
-  const parsed = parse(raw);
-  config = ConfigSchema.parse(parsed);
+// The object holding the last part of a path, created as needed
+function sectionFor(root: Record<string, any>, path: string[]): Record<string, any> {
+  let target = root;
+  for (const part of path.slice(0, -1)) {
+    if (typeof target[part] !== 'object' || target[part] === null) target[part] = {};
+    target = target[part];
+  }
+  return target;
+}
+
+// Writes env values over the parsed YAML, collecting the ones that don't parse
+function applyEnv(base: Record<string, any>, env: NodeJS.ProcessEnv): { merged: Record<string, any>; errors: string[] } {
+  const merged = structuredClone(base);
+  const errors: string[] = [];
+  
+  // Create every section up front so schema errors name the missing setting, not its section
+  for (const setting of ENV_SETTINGS) {
+    sectionFor(merged, setting.key.split('.'));
+  }
+  
+  for (const setting of ENV_SETTINGS) {
+    const raw = env[setting.name];
+    if (raw === undefined || raw === '') continue;
+    
+    let value: unknown;
+    try {
+      value = parseEnvValue(setting, raw);
+    } catch (err) {
+      errors.push(`${setting.name} (${setting.key}): ${err instanceof Error ? err.message : String(err)}`);
+      continue;
+    }
+    
+    const path = setting.key.split('.');
+    sectionFor(merged, path)[path[path.length - 1]] = value;
+  }
+  
+  return { merged, errors };
+}
+
+// Names the setting behind a schema error both ways it can be provided
+function describeSetting(issuePath: (string | number)[]): string {
+  const key = issuePath.join('.');
+  const setting = ENV_SETTINGS.find(s => key === s.key || key.startsWith(`${s.key}.`));
+  return setting ? `${key} (env ${setting.name})` : key;
+}
+
+function configError(path: string, fileFound: boolean, envErrors: string[], issues: z.ZodIssue[]): Error {
+  const missing = issues.filter(i => i.code === 'invalid_type' && i.received === 'undefined');
+  const invalid = issues.filter(i => !missing.includes(i));
+  
+  const lines = [fileFound ? `Invalid configuration (${path} + environment):` : `No ${path} found and the environment doesn't provide a complete config:`];
+  if (missing.length > 0) {
+    lines.push('Missing settings:', ...missing.map(i => `  - ${describeSetting(i.path)}`));
+  }
+  if (invalid.length > 0) {
+    lines.push('Invalid settings:', ...invalid.map(i => `  - ${describeSetting(i.path)}: ${i.message}`));
+  }
+  if (envErrors.length > 0) {
+    lines.push('Unreadable environment variables:', ...envErrors.map(e => `  - ${e}`));
+  }
+  if (!fileFound) {
+    lines.push(`Copy config.example.yaml to ${path}, or set the variables above.`);
+  }
+  
+  return new Error(lines.join('\n'));
+}
+
+const CONFIG_WATCH_DEBOUNCE_MS = 500;
+
+let config: Config | null = null;
+let configPath = 'config.yaml';
+
+/**
+ * Reads config.yaml (if present) and merges environment variables over it -
+ * see ENV_SETTINGS for the names. Throws listing every missing or bad setting.
+ */
+function readConfig(path: string): Config {
+  const fileFound = existsSync(path);
+  
+  let fromFile: Record<string, any> = {};
+  if (fileFound) {
+    try {
+      fromFile = parse(readFileSync(path, 'utf-8')) ?? {};
+    } catch (err) {
+      throw new Error(`Couldn't parse ${path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+  const { merged, errors } = applyEnv(fromFile, process.env);
+  
+  const result = ConfigSchema.safeParse(merged);
+  if (!result.success || errors.length > 0) {
+    throw configError(path, fileFound, errors, result.success ? [] : result.error.issues);
+  }
+  return result.data;
+}
+
+export function loadConfig(path = 'config.yaml'): Config {
+  if (config) return config;
+  
+  configPath = path;
+  config = readConfig(path);
   return config;
 }
 
@@ -63,12 +318,69 @@ export function getConfig(): Config {
   return config;
 }
 
+/**
+ * Re-reads the config and swaps it in with a single assignment, so every later
+ * getConfig() sees all of the new values or none of them. Throws (keeping the
+ * current config) if the new one doesn't validate.
+ */
+export function reloadConfig(): { previous: Config; current: Config } {
+  const previous = getConfig();
+  const current = readConfig(configPath);
+  config = current;
+  return { previous, current };
+}
+
+// Settings that are only read at startup, so changing them needs a restart
+const RESTART_SETTINGS = ['slack.app_token', 'slack.bot_token', 'slack.signing_secret', 'webhook.enabled', 'webhook.port', 'webhook.path', 'dashboard.enabled', 'dashboard.port'];
+
+function settingValue(cfg: Config, key: string): unknown {
+  return key.split('.').reduce<any>((value, part) => value?.[part], cfg);
+}
+
+// Human-readable summary of what a reload changed (secrets are named, never shown)
+export function describeConfigChanges(previous: Config, current: Config): { changes: string[]; needsRestart: string[] } {
+  const changed = ENV_SETTINGS
+    .map(s => s.key)
+    .filter(key => JSON.stringify(settingValue(previous, key)) !== JSON.stringify(settingValue(current, key)));
+  
+  const repoNames = (cfg: Config) => cfg.repos.map(r => `${r.owner}/${r.name}`);
+  const changes = changed.filter(key => !RESTART_SETTINGS.includes(key)).map(key => {
+    if (key !== 'repos') return key;
+    const added = repoNames(current).filter(r => !repoNames(previous).includes(r));
+    const removed = repoNames(previous).filter(r => !repoNames(current).includes(r));
+    const parts = [...added.map(r => `+${r}`), ...removed.map(r => `-${r}`)];
+    return parts.length > 0 ? `repos (${parts.join(', ')})` : 'repos';
+  });
+  
+  return { changes, needsRestart: changed.filter(key => RESTART_SETTINGS.includes(key)) };
+}
+
+/**
+ * Calls onChange when the config file is saved. Watches the directory rather
+ * than the file, since editors often replace the file instead of writing it.
+ */
+export function watchConfig(onChange: () => void): void {
+  const file = basename(configPath);
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  
+  watch(dirname(resolve(configPath)), (_event, filename) => {
+    if (filename !== file) return;
+    // Saves often arrive as several events
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      if (existsSync(configPath)) onChange();
+    }, CONFIG_WATCH_DEBOUNCE_MS);
+  });
+}
+
 export function getRepo(owner: string, name: string): Repo | undefined {
   const cfg = getConfig();
   return cfg.repos.find(r => r.owner === owner && r.name === name);
 }
 
+// Keys saved with /loop key set win over config.yaml
 export function getFactoryKey(userId: string): string | undefined {
   const cfg = getConfig();
-  return cfg.user_keys[userId] || cfg.factory?.default_api_key;
+  return getStoredKey(userId) || cfg.user_keys[userId] || cfg.factory?.default_api_key;
 }
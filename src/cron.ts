@@ -0,0 +1,84 @@
+// Minimal 5-field cron: minute hour day-of-month month day-of-week.
+// Supports *, lists (1,15), ranges (1-5) and steps (*/10, 0-30/5). Sunday is 0 or 7.
+
+interface CronField {
+  values: Set<number>;
+  wildcard: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+const FIELD_NAMES = ['minute', 'hour', 'day of month', 'month', 'day of week'];
+
+function parseField(field: string, index: number): CronField {
+  const [min, max] = FIELD_RANGES[index];
+  const values = new Set<number>();
+  
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${FIELD_NAMES[index]}`);
+    }
+    
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      [start, end] = range.split('-').map(n => parseInt(n, 10));
+    } else {
+      start = parseInt(range, 10);
+      end = stepText === undefined ? start : max;
+    }
+    
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid ${FIELD_NAMES[index]} "${part}" (allowed ${min}-${max})`);
+    }
+    
+    for (let v = start; v <= end; v += step) {
+      values.add(index === 4 && v === 7 ? 0 : v);
+    }
+  }
+  
+  return { values, wildcard: field === '*' };
+}
+
+export function parseCron(expression: string): CronField[] {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields (minute hour day month weekday), got ${fields.length}`);
+  }
+  return fields.map(parseField);
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Evaluated in the bot's local time zone
+export function cronMatches(expression: string, date: Date): boolean {
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = parseCron(expression);
+  
+  if (!minute.values.has(date.getMinutes())) return false;
+  if (!hour.values.has(date.getHours())) return false;
+  if (!month.values.has(date.getMonth() + 1)) return false;
+  
+  // Like classic cron: when both day fields are restricted, either one may match
+  const domMatch = dayOfMonth.values.has(date.getDate());
+  const dowMatch = dayOfWeek.values.has(date.getDay());
+  if (!dayOfMonth.wildcard && !dayOfWeek.wildcard) return domMatch || dowMatch;
+  return domMatch && dowMatch;
+}
@@ -0,0 +1,346 @@
+import { createServer, type Server, type ServerResponse } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getConfig } from './config.js';
+import * as db from './db.js';
+import { readTranscript, transcriptHeader } from './transcripts.js';
+
+const LOOP_LIMIT = 200;
+const LOG_LIMIT = 500;
+
+const STATUSES: db.LoopStatus[] = ['queued', 'pending', 'running', 'paused', 'waiting_approval', 'complete', 'error', 'stopped'];
+const ACTIVE_STATUSES: db.LoopStatus[] = ['queued', 'pending', 'running', 'paused', 'waiting_approval'];
+
+/**
+ * What a signed link may show: one loop, the loops of some repos, or (when
+ * both are unset) everything. The static token is always unscoped.
+ */
+export interface DashboardScope {
+  loopId?: string;
+  repos?: string[];
+}
+
+interface Access {
+  // Query parameters that carry the credential onto the dashboard's own links
+  credentials: URLSearchParams;
+  scope: DashboardScope;
+}
+
+function encodeScope(scope: DashboardScope): string {
+  if (scope.loopId) return `loop:${scope.loopId}`;
+  if (scope.repos) return `repos:${scope.repos.join(',')}`;
+  return 'all';
+}
+
+function decodeScope(value: string): DashboardScope | null {
+  if (value === 'all') return {};
+  if (value.startsWith('loop:')) return { loopId: value.slice('loop:'.length) };
+  if (value.startsWith('repos:')) return { repos: value.slice('repos:'.length).split(',').filter(Boolean) };
+  return null;
+}
+
+function sign(secret: string, scope: string, expires: number): string {
+  return createHmac('sha256', secret).update(`dashboard:${scope}:${expires}`).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * An expiring dashboard link for posting in Slack, or null if the dashboard
+ * is off or has no dashboard.secret to sign with. The link only opens what
+ * the scope covers, so check the user may see that before handing it out.
+ */
+export function dashboardLink(scope: DashboardScope): string | null {
+  const { dashboard } = getConfig();
+  if (!dashboard.enabled || !dashboard.secret) return null;
+  
+  const expires = Math.floor(Date.now() / 1000) + dashboard.link_ttl_hours * 60 * 60;
+  const base = (dashboard.base_url || `http://localhost:${dashboard.port}`).replace(/\/$/, '');
+  const encoded = encodeScope(scope);
+  const path = scope.loopId ? `/loops/${scope.loopId}` : '/';
+  const query = new URLSearchParams({ scope: encoded, expires: String(expires), sig: sign(dashboard.secret, encoded, expires) });
+  return `${base}${path}?${query}`;
+}
+
+// Checks the request's token or signed link; null if access is denied
+function authorize(authorization: string | undefined, query: URLSearchParams): Access | null {
+  const { dashboard } = getConfig();
+  
+  if (dashboard.token) {
+    if (authorization?.startsWith('Bearer ') && safeEqual(authorization.slice('Bearer '.length), dashboard.token)) {
+      return { credentials: new URLSearchParams(), scope: {} };
+    }
+    const token = query.get('token');
+    if (token && safeEqual(token, dashboard.token)) {
+      return { credentials: new URLSearchParams({ token }), scope: {} };
+    }
+  }
+  
+  if (dashboard.secret) {
+    const encoded = query.get('scope') || '';
+    const scope = decodeScope(encoded);
+    const expires = parseInt(query.get('expires') || '', 10);
+    const sig = query.get('sig') || '';
+    if (scope && expires > Date.now() / 1000 && safeEqual(sig, sign(dashboard.secret, encoded, expires))) {
+      return { credentials: new URLSearchParams({ scope: encoded, expires: String(expires), sig }), scope };
+    }
+  }
+  
+  return null;
+}
+
+function inScope(scope: DashboardScope, loop: db.Loop): boolean {
+  return (!scope.loopId || loop.id === scope.loopId) &&
+    (!scope.repos || scope.repos.includes(`${loop.repo_owner}/${loop.repo_name}`));
+}
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function href(path: string, credentials: URLSearchParams, params: Record<string, string> = {}): string {
+  const query = new URLSearchParams({ ...Object.fromEntries(credentials), ...params }).toString();
+  return escapeHtml(query ? `${path}?${query}` : path);
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} - Loop</title>
+<style>
+  body { font: 14px/1.4 -apple-system, system-ui, sans-serif; margin: 24px; color: #1d1c1d; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 24px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e8e8e8; vertical-align: top; }
+  th { background: #f8f8f8; }
+  form { margin-bottom: 16px; }
+  form > * { margin-right: 8px; }
+  code, pre { font-family: ui-monospace, monospace; font-size: 12px; }
+  pre { margin: 0; white-space: pre-wrap; }
+  .status-running, .status-waiting_approval { color: #1264a3; }
+  .status-error, .level-error { color: #e01e5a; }
+  .status-paused, .level-warn, .stream-err { color: #b7791f; }
+  .status-complete { color: #2eb67d; }
+  .muted { color: #616061; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+}
+
+function repoUrl(loop: db.Loop): string {
+  return `https://github.com/${loop.repo_owner}/${loop.repo_name}`;
+}
+
+function loopRows(loops: db.Loop[], credentials: URLSearchParams): string {
+  if (loops.length === 0) {
+    return '<tr><td colspan="8" class="muted">No loops</td></tr>';
+  }
+  
+  return loops.map(l => `<tr>
+    <td><a href="${href(`/loops/${l.id}`, credentials)}"><code>${escapeHtml(l.id.slice(0, 8))}</code></a></td>
+    <td><a href="${escapeHtml(repoUrl(l))}">${escapeHtml(`${l.repo_owner}/${l.repo_name}`)}</a></td>
+    <td class="status-${escapeHtml(l.status)}">${escapeHtml(l.status)}</td>
+    <td>${escapeHtml(l.mode)}</td>
+    <td>${escapeHtml(`${l.iteration_current}/${l.iteration_max}`)}</td>
+    <td><code>${escapeHtml(l.started_by)}</code></td>
+    <td>${escapeHtml(l.started_at || (l.queued_at ? `queued ${l.queued_at}` : ''))}</td>
+    <td>${l.current_pr ? `<a href="${escapeHtml(`${repoUrl(l)}/pull/${l.current_pr}`)}">#${l.current_pr}</a>` : ''}</td>
+  </tr>`).join('\n');
+}
+
+function loopTable(loops: db.Loop[], credentials: URLSearchParams): string {
+  return `<table>
+  <tr><th>Loop</th><th>Repo</th><th>Status</th><th>Mode</th><th>Iteration</th><th>Started by</th><th>Started</th><th>Open PR</th></tr>
+  ${loopRows(loops, credentials)}
+</table>`;
+}
+
+function loopListPage(query: URLSearchParams, { credentials, scope }: Access): string {
+  const status = STATUSES.find(s => s === query.get('status'));
+  const filter: db.LoopFilter = {
+    repo: query.get('repo') || undefined,
+    started_by: query.get('user')?.trim() || undefined,
+    status,
+  };
+  
+  const matches = (l: db.Loop) => inScope(scope, l) &&
+    (!filter.repo || `${l.repo_owner}/${l.repo_name}` === filter.repo) &&
+    (!filter.started_by || l.started_by === filter.started_by) &&
+    (!filter.status || l.status === filter.status);
+  
+  const active = db.getActiveLoops().filter(matches);
+  const recent = db.getRecentLoops(LOOP_LIMIT, filter).filter(l => !ACTIVE_STATUSES.includes(l.status));
+  
+  const repoOptions = getConfig().repos.map(r => `${r.owner}/${r.name}`)
+    .filter(r => !scope.repos || scope.repos.includes(r))
+    .map(r => `<option value="${escapeHtml(r)}"${r === filter.repo ? ' selected' : ''}>${escapeHtml(r)}</option>`).join('');
+  const statusOptions = STATUSES
+    .map(s => `<option value="${s}"${s === status ? ' selected' : ''}>${s}</option>`).join('');
+  const hidden = [...credentials].map(([k, v]) => `<input type="hidden" name="${escapeHtml(k)}" value="${escapeHtml(v)}">`).join('');
+  
+  return page('Loops', `<h1>Loops</h1>
+<form method="get" action="/">
+  ${hidden}
+  <select name="repo"><option value="">All repos</option>${repoOptions}</select>
+  <input name="user" placeholder="Slack user ID" value="${escapeHtml(filter.started_by || '')}">
+  <select name="status"><option value="">Any status</option>${statusOptions}</select>
+  <button type="submit">Filter</button>
+  <a href="${href('/', credentials)}">Clear</a>
+</form>
+<h2>Active (${active.length})</h2>
+${loopTable(active, credentials)}
+<h2>Recent</h2>
+${loopTable(recent, credentials)}
+<p class="muted">Showing up to ${LOOP_LIMIT} finished loops, newest first.</p>`);
+}
+
+function loopDetailPage(loop: db.Loop, { credentials, scope }: Access): string {
+  const tasks = db.getTasksForLoop(loop.id);
+  const logs = db.getLoopLogs(loop.id, LOG_LIMIT);
+  const transcripts = db.getTranscriptsForLoop(loop.id);
+  const url = repoUrl(loop);
+  
+  const taskRows = tasks.length > 0
+    ? tasks.map(t => `<tr>
+    <td><a href="${escapeHtml(`${url}/issues/${t.issue_number}`)}">#${t.issue_number}</a></td>
+    <td>${escapeHtml(t.status)}</td>
+    <td>${t.pr_number ? `<a href="${escapeHtml(`${url}/pull/${t.pr_number}`)}">#${t.pr_number}</a>` : ''}</td>
+    <td>${escapeHtml(t.started_at || '')}</td>
+    <td>${escapeHtml(t.completed_at || '')}</td>
+    <td>${escapeHtml(t.error || '')}</td>
+  </tr>`).join('\n')
+    : '<tr><td colspan="6" class="muted">No tasks yet</td></tr>';
+  
+  const logRows = logs.length > 0
+    ? logs.map(log => `<tr>
+    <td>${escapeHtml(log.timestamp)}</td>
+    <td class="level-${escapeHtml(log.level)}">${escapeHtml(log.level)}</td>
+    <td><pre>${escapeHtml(log.message)}</pre></td>
+  </tr>`).join('\n')
+    : '<tr><td colspan="3" class="muted">No log entries</td></tr>';
+  
+  const transcriptRows = transcripts.length > 0
+    ? transcripts.map(t => `<tr>
+    <td><a href="${href(`/loops/${loop.id}/transcripts/${t.id}`, credentials)}">Iteration ${t.iteration}</a></td>
+    <td>${escapeHtml(t.started_at)}</td>
+    <td>${escapeHtml(t.finished_at || 'running')}</td>
+    <td>${escapeHtml(t.exit_code ?? '')}</td>
+    <td>${escapeHtml(`${Math.ceil(t.bytes / 1024)} KB`)}</td>
+  </tr>`).join('\n')
+    : '<tr><td colspan="5" class="muted">No transcripts</td></tr>';
+  
+  return page(`Loop ${loop.id.slice(0, 8)}`, `${scope.loopId ? '' : `<p><a href="${href('/', credentials)}">← All loops</a></p>\n`}<h1>Loop <code>${escapeHtml(loop.id.slice(0, 8))}</code> on <a href="${escapeHtml(url)}">${escapeHtml(`${loop.repo_owner}/${loop.repo_name}`)}</a></h1>
+<p>
+  Status: <strong class="status-${escapeHtml(loop.status)}">${escapeHtml(loop.status)}</strong> ·
+  Mode: ${escapeHtml(loop.mode)} ·
+  Iteration ${escapeHtml(`${loop.iteration_current}/${loop.iteration_max}`)} ·
+  Started by <code>${escapeHtml(loop.started_by)}</code>${loop.started_at ? ` at ${escapeHtml(loop.started_at)}` : ''}
+  ${loop.completed_at ? ` · Finished ${escapeHtml(loop.completed_at)}` : ''}
+  ${loop.current_pr ? ` · Open PR <a href="${escapeHtml(`${url}/pull/${loop.current_pr}`)}">#${loop.current_pr}</a>` : ''}
+</p>
+${loop.error ? `<p class="status-error">Error${loop.failure_reason && loop.failure_reason !== 'error' ? ` (${escapeHtml(loop.failure_reason)})` : ''}: ${escapeHtml(loop.error)}</p>` : ''}
+<h2>Tasks</h2>
+<table>
+  <tr><th>Issue</th><th>Status</th><th>PR</th><th>Started</th><th>Completed</th><th>Error</th></tr>
+  ${taskRows}
+</table>
+<h2>Droid transcripts</h2>
+<table>
+  <tr><th>Run</th><th>Started</th><th>Finished</th><th>Exit code</th><th>Size</th></tr>
+  ${transcriptRows}
+</table>
+<h2>Logs</h2>
+<table>
+  <tr><th>Time</th><th>Level</th><th>Message</th></tr>
+  ${logRows}
+</table>
+<p class="muted">Newest first, up to ${LOG_LIMIT} entries.</p>`);
+}
+
+function transcriptPage(loop: db.Loop, transcript: db.Transcript, credentials: URLSearchParams): string {
+  const chunks = readTranscript(transcript);
+  const rows = chunks.length > 0
+    ? chunks.map(c => `<tr>
+    <td>${escapeHtml(c.t)}</td>
+    <td class="stream-${escapeHtml(c.s)}"><pre>${escapeHtml(c.d)}</pre></td>
+  </tr>`).join('\n')
+    : '<tr><td colspan="2" class="muted">No output recorded</td></tr>';
+  
+  return page(`Loop ${loop.id.slice(0, 8)} iteration ${transcript.iteration}`, `<p><a href="${href(`/loops/${loop.id}`, credentials)}">← Loop ${escapeHtml(loop.id.slice(0, 8))}</a></p>
+<h1>${escapeHtml(transcriptHeader(transcript))}</h1>
+<table>
+  <tr><th>Time</th><th>Output</th></tr>
+  ${rows}
+</table>
+<p class="muted">stderr is highlighted.</p>`);
+}
+
+function send(res: ServerResponse, status: number, body: string) {
+  res.writeHead(status, {
+    'Content-Type': status === 200 ? 'text/html; charset=utf-8' : 'text/plain; charset=utf-8',
+    'Cache-Control': 'no-store',
+    'Referrer-Policy': 'no-referrer',
+  }).end(body);
+}
+
+export function startDashboardServer(): Server {
+  // ConfigSchema refuses dashboard.enabled without a token or secret
+  const { dashboard } = getConfig();
+  
+  const server = createServer((req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      send(res, 405, 'Method not allowed');
+      return;
+    }
+    
+    const url = new URL(req.url || '/', 'http://dashboard');
+    const access = authorize(req.headers.authorization, url.searchParams);
+    if (!access) {
+      send(res, 401, 'Unauthorized - use a dashboard link from Slack (/loop dashboard) or the configured token');
+      return;
+    }
+    
+    try {
+      if (url.pathname === '/') {
+        send(res, 200, loopListPage(url.searchParams, access));
+        return;
+      }
+      
+      const transcriptMatch = url.pathname.match(/^\/loops\/([\w-]+)\/transcripts\/(\d+)$/);
+      const transcript = transcriptMatch ? db.getTranscript(parseInt(transcriptMatch[2], 10)) : null;
+      const transcriptLoop = transcript && transcript.loop_id === transcriptMatch![1] ? db.getLoop(transcript.loop_id) : null;
+      if (transcriptLoop && inScope(access.scope, transcriptLoop)) {
+        send(res, 200, transcriptPage(transcriptLoop, transcript!, access.credentials));
+        return;
+      }
+      
+      const match = url.pathname.match(/^\/loops\/([\w-]+)$/);
+      const loop = match ? db.getLoop(match[1]) : null;
+      // Out-of-scope loops look the same as missing ones
+      if (loop && inScope(access.scope, loop)) {
+        send(res, 200, loopDetailPage(loop, access));
+        return;
+      }
+      
+      send(res, 404, 'Not found');
+    } catch (err) {
+      console.error('Dashboard request failed:', err);
+      send(res, 500, 'Internal error');
+    }
+  });
+  
+  server.listen(dashboard.port);
+  return server;
+}
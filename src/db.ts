@@ -21,9 +21,13 @@ db.exec(`
     started_by TEXT NOT NULL,
     completed_at TEXT,
     error TEXT,
-    pid INTEGER
+    pid INTEGER,
+    queued_at TEXT,
+    issue_labels TEXT,
+    issue_numbers TEXT,
+    issue_order TEXT
   );
-
+  
   CREATE TABLE IF NOT EXISTS tasks (
     id TEXT PRIMARY KEY,
     loop_id TEXT NOT NULL,
@@ -35,7 +39,7 @@ db.exec(`
     error TEXT,
     FOREIGN KEY (loop_id) REFERENCES loops(id)
   );
-
+  
   CREATE TABLE IF NOT EXISTS loop_logs (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     loop_id TEXT NOT NULL,
@@ -45,15 +49,138 @@ db.exec(`
     data TEXT,
     FOREIGN KEY (loop_id) REFERENCES loops(id)
   );
-
+  
+  CREATE TABLE IF NOT EXISTS loop_instructions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    loop_id TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    text TEXT NOT NULL,
+    author TEXT NOT NULL,
+    pr_number INTEGER,
+    pr_head_sha TEXT,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    consumed_at TEXT,
+    FOREIGN KEY (loop_id) REFERENCES loops(id)
+  );
+  
+  CREATE TABLE IF NOT EXISTS schedules (
+    id TEXT PRIMARY KEY,
+    repo_owner TEXT NOT NULL,
+    repo_name TEXT NOT NULL,
+    cron TEXT NOT NULL,
+    mode TEXT NOT NULL DEFAULT 'auto',
+    iteration_max INTEGER DEFAULT 10,
+    issue_labels TEXT,
+    channel_id TEXT,
+    run_as TEXT,
+    source TEXT NOT NULL DEFAULT 'slack',
+    created_by TEXT NOT NULL,
+    created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    last_run_at TEXT
+  );
+  
+  CREATE TABLE IF NOT EXISTS role_grants (
+    user_id TEXT PRIMARY KEY,
+    role TEXT NOT NULL,
+    granted_by TEXT NOT NULL,
+    granted_at TEXT DEFAULT CURRENT_TIMESTAMP,
+    expires_at TEXT
+  );
+  
+  CREATE TABLE IF NOT EXISTS status_boards (
+    channel_id TEXT PRIMARY KEY,
+    message_ts TEXT NOT NULL,
+    updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+  );
+  
+  CREATE TABLE IF NOT EXISTS iteration_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    loop_id TEXT NOT NULL,
+    iteration INTEGER NOT NULL,
+    user_id TEXT NOT NULL,
+    repo TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    tokens INTEGER,
+    credits REAL,
+    FOREIGN KEY (loop_id) REFERENCES loops(id)
+  );
+  
+  CREATE TABLE IF NOT EXISTS transcripts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    loop_id TEXT NOT NULL,
+    iteration INTEGER NOT NULL,
+    path TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    exit_code INTEGER,
+    bytes INTEGER DEFAULT 0,
+    FOREIGN KEY (loop_id) REFERENCES loops(id)
+  );
+  
+  CREATE TABLE IF NOT EXISTS factory_keys (
+    user_id TEXT PRIMARY KEY,
+    encrypted_key TEXT NOT NULL,
+    hint TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    action TEXT NOT NULL,
+    source TEXT NOT NULL,
+    loop_id TEXT,
+    repo TEXT,
+    issue_number INTEGER,
+    pr_number INTEGER,
+    detail TEXT
+  );
+  
+  -- The audit trail is append-only
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_update BEFORE UPDATE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+  
+  CREATE TRIGGER IF NOT EXISTS audit_log_no_delete BEFORE DELETE ON audit_log
+  BEGIN
+    SELECT RAISE(ABORT, 'audit_log is append-only');
+  END;
+  
   CREATE INDEX IF NOT EXISTS idx_loops_status ON loops(status);
   CREATE INDEX IF NOT EXISTS idx_loops_repo ON loops(repo_owner, repo_name);
   CREATE INDEX IF NOT EXISTS idx_tasks_loop ON tasks(loop_id);
   CREATE INDEX IF NOT EXISTS idx_logs_loop ON loop_logs(loop_id);
+  CREATE INDEX IF NOT EXISTS idx_instructions_loop ON loop_instructions(loop_id);
+  CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_log(timestamp);
+  CREATE INDEX IF NOT EXISTS idx_transcripts_loop ON transcripts(loop_id);
+  CREATE INDEX IF NOT EXISTS idx_usage_loop ON iteration_usage(loop_id);
+  CREATE INDEX IF NOT EXISTS idx_usage_finished ON iteration_usage(finished_at);
 `);
 
-export type LoopStatus = 'pending' | 'running' | 'paused' | 'waiting_approval' | 'complete' | 'error' | 'stopped';
+// Columns added after the first release - older databases need them too
+function addColumn(table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+addColumn('loops', 'queued_at', 'TEXT');
+addColumn('loops', 'issue_labels', 'TEXT');
+addColumn('loops', 'issue_numbers', 'TEXT');
+addColumn('loops', 'issue_order', 'TEXT');
+addColumn('loops', 'failure_reason', 'TEXT');
+
+export type LoopStatus = 'queued' | 'pending' | 'running' | 'paused' | 'waiting_approval' | 'complete' | 'error' | 'stopped';
 export type LoopMode = 'auto' | 'approval';
+// Why a loop ended in 'error' - timeouts can be retried from Slack
+export type FailureReason = 'error' | 'iteration_timeout' | 'silence_timeout';
+export type InstructionKind = 'revision' | 'guidance';
+export type LogLevel = 'info' | 'warn' | 'error';
 export type TaskStatus = 'pending' | 'in_progress' | 'complete' | 'skipped' | 'error';
 
 export interface Loop {
@@ -73,6 +200,146 @@ export interface Loop {
   completed_at: string | null;
   error: string | null;
   pid: number | null;
+  queued_at: string | null;
+  // Issue selection - JSON arrays, null when the agent may pick any open issue
+  issue_labels: string | null;
+  issue_numbers: string | null;
+  issue_order: string | null;
+  failure_reason: FailureReason | null;
+}
+
+// Human input waiting to be handed to the agent on its next iteration
+export interface Instruction {
+  id: number;
+  loop_id: string;
+  kind: InstructionKind;
+  text: string;
+  author: string;
+  pr_number: number | null;
+  pr_head_sha: string | null;
+  created_at: string;
+  consumed_at: string | null;
+}
+
+export interface Schedule {
+  id: string;
+  repo_owner: string;
+  repo_name: string;
+  cron: string;
+  mode: LoopMode;
+  iteration_max: number;
+  issue_labels: string | null;
+  channel_id: string | null;
+  // Slack user whose identity (and Factory key) scheduled loops run under
+  run_as: string | null;
+  source: 'config' | 'slack';
+  created_by: string;
+  created_at: string;
+  last_run_at: string | null;
+}
+
+export interface RoleGrant {
+  user_id: string;
+  role: 'admin' | 'operator';
+  granted_by: string;
+  granted_at: string;
+  // null for permanent grants
+  expires_at: string | null;
+}
+
+export interface StatusBoard {
+  channel_id: string;
+  message_ts: string;
+  updated_at: string;
+}
+
+// Time and spend for one droid run. tokens/credits are null when droid didn't report them.
+export interface IterationUsage {
+  id: number;
+  loop_id: string;
+  iteration: number;
+  // The loop's started_by - whose budget it counts against
+  user_id: string;
+  // owner/name
+  repo: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  tokens: number | null;
+  credits: number | null;
+}
+
+export interface UsageFilter {
+  loop_id?: string;
+  user_id?: string;
+  repo?: string;
+  // ISO timestamp - runs that finished at or after it
+  since?: string;
+}
+
+export interface UsageTotals {
+  iterations: number;
+  duration_ms: number;
+  tokens: number;
+  credits: number;
+}
+
+// Totals grouped by user or repo, biggest spend first
+export interface UsageGroup extends UsageTotals {
+  key: string;
+}
+
+// One droid run's raw output - the chunks themselves are in the file at path
+export interface Transcript {
+  id: number;
+  loop_id: string;
+  iteration: number;
+  path: string;
+  started_at: string;
+  finished_at: string | null;
+  // null while running, or if droid was killed by a signal
+  exit_code: number | null;
+  bytes: number;
+}
+
+// A user's Factory API key, encrypted by keys.ts
+export interface FactoryKey {
+  user_id: string;
+  encrypted_key: string;
+  // Last characters of the key, safe to show
+  hint: string;
+  updated_at: string;
+}
+
+export interface AuditEntry {
+  id: number;
+  // ISO 8601, so range queries compare as strings
+  timestamp: string;
+  // Slack user ID, or github:<login> for webhook triggers
+  actor: string;
+  action: string;
+  source: string;
+  loop_id: string | null;
+  // owner/name
+  repo: string | null;
+  issue_number: number | null;
+  pr_number: number | null;
+  // JSON object with action-specific fields
+  detail: string | null;
+}
+
+export interface AuditFilter {
+  repo?: string;
+  actor?: string;
+  since?: string;
+  limit?: number;
+}
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  message: string;
+  data: any;
 }
 
 export interface Task {
@@ -94,13 +361,27 @@ export function createLoop(data: {
   started_by: string;
   mode?: LoopMode;
   iteration_max?: number;
+  issue_labels?: string[];
+  issue_numbers?: number[];
+  issue_order?: string;
 }): Loop {
   const id = randomUUID();
   const stmt = db.prepare(`
-    INSERT INTO loops (id, repo_owner, repo_name, channel_id, started_by, mode, iteration_max, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?, 'pending')
+    INSERT INTO loops (id, repo_owner, repo_name, channel_id, started_by, mode, iteration_max, issue_labels, issue_numbers, issue_order, status)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')
   `);
-  stmt.run(id, data.repo_owner, data.repo_name, data.channel_id, data.started_by, data.mode || 'auto', data.iteration_max || 10);
+  stmt.run(
+    id,
+    data.repo_owner,
+    data.repo_name,
+    data.channel_id,
+    data.started_by,
+    data.mode || 'auto',
+    data.iteration_max || 10,
+    data.issue_labels?.length ? JSON.stringify(data.issue_labels) : null,
+    data.issue_numbers?.length ? JSON.stringify(data.issue_numbers) : null,
+    data.issue_order || 'oldest',
+  );
   return getLoop(id)!;
 }
 
@@ -109,8 +390,27 @@ export function getLoop(id: string): Loop | null {
   return stmt.get(id) as Loop | null;
 }
 
+// Full id or the short prefix shown in Slack
+export function findLoop(idOrPrefix: string): Loop | null {
+  const exact = getLoop(idOrPrefix);
+  if (exact) return exact;
+  
+  const stmt = db.prepare(`SELECT * FROM loops WHERE id LIKE ? ORDER BY started_at DESC LIMIT 1`);
+  return (stmt.get(`${idOrPrefix}%`) as Loop | undefined) || null;
+}
+
+export function getLoopByThread(channelId: string, threadTs: string): Loop | null {
+  const stmt = db.prepare('SELECT * FROM loops WHERE channel_id = ? AND thread_ts = ?');
+  return (stmt.get(channelId, threadTs) as Loop | undefined) || null;
+}
+
 export function getActiveLoops(): Loop[] {
-  const stmt = db.prepare(`SELECT * FROM loops WHERE status IN ('pending', 'running', 'paused', 'waiting_approval')`);
+  const stmt = db.prepare(`SELECT * FROM loops WHERE status IN ('queued', 'pending', 'running', 'paused', 'waiting_approval')`);
+  return stmt.all() as Loop[];
+}
+
+export function getQueuedLoops(): Loop[] {
+  const stmt = db.prepare(`SELECT * FROM loops WHERE status = 'queued' ORDER BY queued_at, rowid`);
   return stmt.all() as Loop[];
 }
 
@@ -119,9 +419,33 @@ export function getLoopsForRepo(owner: string, name: string): Loop[] {
   return stmt.all(owner, name) as Loop[];
 }
 
-export function getRecentLoops(limit = 10): Loop[] {
-  const stmt = db.prepare(`SELECT * FROM loops ORDER BY started_at DESC LIMIT ?`);
-  return stmt.all(limit) as Loop[];
+export interface LoopFilter {
+  // owner/name
+  repo?: string;
+  started_by?: string;
+  status?: LoopStatus;
+}
+
+export function getRecentLoops(limit = 10, filter: LoopFilter = {}): Loop[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  
+  if (filter.repo) {
+    conditions.push(`repo_owner || '/' || repo_name = ?`);
+    params.push(filter.repo);
+  }
+  if (filter.started_by) {
+    conditions.push('started_by = ?');
+    params.push(filter.started_by);
+  }
+  if (filter.status) {
+    conditions.push('status = ?');
+    params.push(filter.status);
+  }
+  
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const stmt = db.prepare(`SELECT * FROM loops ${where} ORDER BY started_at DESC LIMIT ?`);
+  return stmt.all(...params, limit) as Loop[];
 }
 
 export function updateLoop(id: string, updates: Partial<Loop>): void {
@@ -134,10 +458,18 @@ export function updateLoop(id: string, updates: Partial<Loop>): void {
 }
 
 export function startLoop(id: string, threadTs?: string): void {
+  const existing = getLoop(id);
   updateLoop(id, {
     status: 'running',
-    started_at: new Date().toISOString(),
-    thread_ts: threadTs || null,
+    started_at: existing?.started_at || new Date().toISOString(),
+    thread_ts: threadTs || existing?.thread_ts || null,
+  });
+}
+
+export function queueLoop(id: string): void {
+  updateLoop(id, {
+    status: 'queued',
+    queued_at: new Date().toISOString(),
   });
 }
 
@@ -148,10 +480,11 @@ export function completeLoop(id: string): void {
   });
 }
 
-export function failLoop(id: string, error: string): void {
+export function failLoop(id: string, error: string, reason: FailureReason = 'error'): void {
   updateLoop(id, {
     status: 'error',
     error,
+    failure_reason: reason,
     completed_at: new Date().toISOString(),
   });
 }
@@ -184,6 +517,11 @@ export function getTasksForLoop(loopId: string): Task[] {
   return stmt.all(loopId) as Task[];
 }
 
+export function getOpenTaskForIssue(loopId: string, issueNumber: number): Task | null {
+  const stmt = db.prepare(`SELECT * FROM tasks WHERE loop_id = ? AND issue_number = ? AND status IN ('pending', 'in_progress') ORDER BY started_at DESC LIMIT 1`);
+  return (stmt.get(loopId, issueNumber) as Task | undefined) || null;
+}
+
 export function updateTask(id: string, updates: Partial<Task>): void {
   const fields = Object.keys(updates).filter(k => k !== 'id');
   const setClause = fields.map(f => `${f} = ?`).join(', ');
@@ -193,8 +531,302 @@ export function updateTask(id: string, updates: Partial<Task>): void {
   stmt.run(...values, id);
 }
 
+// Instructions
+export function addInstruction(loopId: string, kind: InstructionKind, text: string, author: string, pr?: { number: number; head_sha: string }): Instruction {
+  const stmt = db.prepare(`
+    INSERT INTO loop_instructions (loop_id, kind, text, author, pr_number, pr_head_sha)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  const result = stmt.run(loopId, kind, text, author, pr?.number ?? null, pr?.head_sha ?? null);
+  return db.prepare('SELECT * FROM loop_instructions WHERE id = ?').get(result.lastInsertRowid) as Instruction;
+}
+
+export function getPendingInstructions(loopId: string, kind: InstructionKind): Instruction[] {
+  const stmt = db.prepare('SELECT * FROM loop_instructions WHERE loop_id = ? AND kind = ? AND consumed_at IS NULL ORDER BY id');
+  return stmt.all(loopId, kind) as Instruction[];
+}
+
+export function consumeInstructions(ids: number[]): void {
+  const stmt = db.prepare('UPDATE loop_instructions SET consumed_at = ? WHERE id = ?');
+  const now = new Date().toISOString();
+  for (const id of ids) stmt.run(now, id);
+}
+
+// Schedules
+export function upsertSchedule(data: {
+  id?: string;
+  repo_owner: string;
+  repo_name: string;
+  cron: string;
+  mode: LoopMode;
+  iteration_max: number;
+  issue_labels: string[];
+  channel_id: string | null;
+  run_as: string | null;
+  source: Schedule['source'];
+  created_by: string;
+}): Schedule {
+  const id = data.id || randomUUID().slice(0, 8);
+  const stmt = db.prepare(`
+    INSERT INTO schedules (id, repo_owner, repo_name, cron, mode, iteration_max, issue_labels, channel_id, run_as, source, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO UPDATE SET
+      repo_owner = excluded.repo_owner,
+      repo_name = excluded.repo_name,
+      cron = excluded.cron,
+      mode = excluded.mode,
+      iteration_max = excluded.iteration_max,
+      issue_labels = excluded.issue_labels,
+      channel_id = excluded.channel_id,
+      run_as = excluded.run_as
+  `);
+  stmt.run(
+    id,
+    data.repo_owner,
+    data.repo_name,
+    data.cron,
+    data.mode,
+    data.iteration_max,
+    data.issue_labels.length ? JSON.stringify(data.issue_labels) : null,
+    data.channel_id,
+    data.run_as,
+    data.source,
+    data.created_by,
+  );
+  return getSchedule(id)!;
+}
+
+export function getSchedule(id: string): Schedule | null {
+  const stmt = db.prepare('SELECT * FROM schedules WHERE id = ?');
+  return (stmt.get(id) as Schedule | undefined) || null;
+}
+
+export function getSchedules(): Schedule[] {
+  const stmt = db.prepare('SELECT * FROM schedules ORDER BY repo_owner, repo_name, created_at');
+  return stmt.all() as Schedule[];
+}
+
+export function deleteSchedule(id: string): void {
+  db.prepare('DELETE FROM schedules WHERE id = ?').run(id);
+}
+
+export function deleteConfigSchedulesExcept(ids: string[]): void {
+  for (const schedule of getSchedules()) {
+    if (schedule.source === 'config' && !ids.includes(schedule.id)) {
+      deleteSchedule(schedule.id);
+    }
+  }
+}
+
+export function markScheduleRun(id: string, runAt: string): void {
+  db.prepare('UPDATE schedules SET last_run_at = ? WHERE id = ?').run(runAt, id);
+}
+
+// Role grants (layered over the config lists)
+export function getRoleGrant(userId: string): RoleGrant | null {
+  const stmt = db.prepare('SELECT * FROM role_grants WHERE user_id = ? AND (expires_at IS NULL OR expires_at > ?)');
+  return (stmt.get(userId, new Date().toISOString()) as RoleGrant | undefined) || null;
+}
+
+export function getRoleGrants(): RoleGrant[] {
+  const stmt = db.prepare('SELECT * FROM role_grants WHERE expires_at IS NULL OR expires_at > ? ORDER BY granted_at');
+  return stmt.all(new Date().toISOString()) as RoleGrant[];
+}
+
+export function saveRoleGrant(userId: string, role: RoleGrant['role'], grantedBy: string, expiresAt: string | null): void {
+  const stmt = db.prepare(`
+    INSERT INTO role_grants (user_id, role, granted_by, granted_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(user_id) DO UPDATE SET
+      role = excluded.role,
+      granted_by = excluded.granted_by,
+      granted_at = excluded.granted_at,
+      expires_at = excluded.expires_at
+  `);
+  stmt.run(userId, role, grantedBy, new Date().toISOString(), expiresAt);
+}
+
+export function deleteRoleGrant(userId: string): boolean {
+  return db.prepare('DELETE FROM role_grants WHERE user_id = ?').run(userId).changes > 0;
+}
+
+// Status boards (one pinned status message per channel)
+export function getStatusBoard(channelId: string): StatusBoard | null {
+  const stmt = db.prepare('SELECT * FROM status_boards WHERE channel_id = ?');
+  return stmt.get(channelId) as StatusBoard | null;
+}
+
+export function getStatusBoards(): StatusBoard[] {
+  const stmt = db.prepare('SELECT * FROM status_boards');
+  return stmt.all() as StatusBoard[];
+}
+
+export function saveStatusBoard(channelId: string, messageTs: string): void {
+  const stmt = db.prepare(`
+    INSERT INTO status_boards (channel_id, message_ts, updated_at)
+    VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(channel_id) DO UPDATE SET message_ts = excluded.message_ts, updated_at = CURRENT_TIMESTAMP
+  `);
+  stmt.run(channelId, messageTs);
+}
+
+export function touchStatusBoard(channelId: string): void {
+  db.prepare('UPDATE status_boards SET updated_at = CURRENT_TIMESTAMP WHERE channel_id = ?').run(channelId);
+}
+
+// Iteration usage
+export function addIterationUsage(entry: Omit<IterationUsage, 'id'>): void {
+  const stmt = db.prepare(`
+    INSERT INTO iteration_usage (loop_id, iteration, user_id, repo, started_at, finished_at, duration_ms, tokens, credits)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(entry.loop_id, entry.iteration, entry.user_id, entry.repo, entry.started_at, entry.finished_at, entry.duration_ms, entry.tokens, entry.credits);
+}
+
+function usageWhere(filter: UsageFilter): { where: string; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  
+  if (filter.loop_id) {
+    conditions.push('loop_id = ?');
+    params.push(filter.loop_id);
+  }
+  if (filter.user_id) {
+    conditions.push('user_id = ?');
+    params.push(filter.user_id);
+  }
+  if (filter.repo) {
+    conditions.push('repo = ?');
+    params.push(filter.repo);
+  }
+  if (filter.since) {
+    conditions.push('finished_at >= ?');
+    params.push(filter.since);
+  }
+  
+  return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+}
+
+const USAGE_TOTALS = `COUNT(*) as iterations, COALESCE(SUM(duration_ms), 0) as duration_ms,
+    COALESCE(SUM(tokens), 0) as tokens, COALESCE(SUM(credits), 0) as credits`;
+
+export function getUsageTotals(filter: UsageFilter = {}): UsageTotals {
+  const { where, params } = usageWhere(filter);
+  return db.prepare(`SELECT ${USAGE_TOTALS} FROM iteration_usage ${where}`).get(...params) as UsageTotals;
+}
+
+export function getUsageBy(column: 'user_id' | 'repo', filter: UsageFilter = {}): UsageGroup[] {
+  const { where, params } = usageWhere(filter);
+  const stmt = db.prepare(`
+    SELECT ${column} as key, ${USAGE_TOTALS}
+    FROM iteration_usage ${where}
+    GROUP BY ${column}
+    ORDER BY credits DESC, duration_ms DESC
+  `);
+  return stmt.all(...params) as UsageGroup[];
+}
+
+// Transcripts (files managed by transcripts.ts)
+export function createTranscript(loopId: string, iteration: number, path: string): Transcript {
+  const stmt = db.prepare(`
+    INSERT INTO transcripts (loop_id, iteration, path, started_at)
+    VALUES (?, ?, ?, ?)
+  `);
+  const result = stmt.run(loopId, iteration, path, new Date().toISOString());
+  return getTranscript(Number(result.lastInsertRowid))!;
+}
+
+export function getTranscript(id: number): Transcript | null {
+  const stmt = db.prepare('SELECT * FROM transcripts WHERE id = ?');
+  return (stmt.get(id) as Transcript | undefined) || null;
+}
+
+export function getTranscriptsForLoop(loopId: string): Transcript[] {
+  const stmt = db.prepare('SELECT * FROM transcripts WHERE loop_id = ? ORDER BY id');
+  return stmt.all(loopId) as Transcript[];
+}
+
+export function finishTranscript(id: number, exitCode: number | null, bytes: number): void {
+  db.prepare('UPDATE transcripts SET finished_at = ?, exit_code = ?, bytes = ? WHERE id = ?')
+    .run(new Date().toISOString(), exitCode, bytes, id);
+}
+
+// Finished before the cutoff (ISO timestamp)
+export function getTranscriptsFinishedBefore(cutoff: string): Transcript[] {
+  const stmt = db.prepare('SELECT * FROM transcripts WHERE finished_at IS NOT NULL AND finished_at < ?');
+  return stmt.all(cutoff) as Transcript[];
+}
+
+export function deleteTranscript(id: number): void {
+  db.prepare('DELETE FROM transcripts WHERE id = ?').run(id);
+}
+
+// Factory keys (encrypted - see keys.ts)
+export function getUserKey(userId: string): FactoryKey | null {
+  const stmt = db.prepare('SELECT * FROM factory_keys WHERE user_id = ?');
+  return (stmt.get(userId) as FactoryKey | undefined) || null;
+}
+
+export function saveUserKey(userId: string, encryptedKey: string, hint: string): void {
+  const stmt = db.prepare(`
+    INSERT INTO factory_keys (user_id, encrypted_key, hint, updated_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(user_id) DO UPDATE SET
+      encrypted_key = excluded.encrypted_key,
+      hint = excluded.hint,
+      updated_at = excluded.updated_at
+  `);
+  stmt.run(userId, encryptedKey, hint, new Date().toISOString());
+}
+
+export function deleteUserKey(userId: string): boolean {
+  return db.prepare('DELETE FROM factory_keys WHERE user_id = ?').run(userId).changes > 0;
+}
+
+// Audit log (append-only - see the triggers above)
+export function addAuditEntry(data: Omit<AuditEntry, 'id' | 'timestamp'>): void {
+  const stmt = db.prepare(`
+    INSERT INTO audit_log (timestamp, actor, action, source, loop_id, repo, issue_number, pr_number, detail)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  stmt.run(
+    new Date().toISOString(),
+    data.actor,
+    data.action,
+    data.source,
+    data.loop_id,
+    data.repo,
+    data.issue_number,
+    data.pr_number,
+    data.detail,
+  );
+}
+
+// Newest first
+export function getAuditEntries(filter: AuditFilter = {}): AuditEntry[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  
+  if (filter.repo) {
+    conditions.push('repo = ?');
+    params.push(filter.repo);
+  }
+  if (filter.actor) {
+    conditions.push('actor = ?');
+    params.push(filter.actor);
+  }
+  if (filter.since) {
+    conditions.push('timestamp >= ?');
+    params.push(filter.since);
+  }
+  
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const stmt = db.prepare(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ?`);
+  return stmt.all(...params, filter.limit ?? -1) as AuditEntry[];
+}
+
 // Logging
-export function logLoop(loopId: string, message: string, level: 'info' | 'warn' | 'error' = 'info', data?: any): void {
+export function logLoop(loopId: string, message: string, level: LogLevel = 'info', data?: any): void {
   const stmt = db.prepare(`
     INSERT INTO loop_logs (loop_id, level, message, data)
     VALUES (?, ?, ?, ?)
@@ -202,15 +834,33 @@ export function logLoop(loopId: string, message: string, level: 'info' | 'warn'
   stmt.run(loopId, level, message, data ? JSON.stringify(data) : null);
 }
 
-export function getLoopLogs(loopId: string, limit = 50): { timestamp: string; level: string; message: string; data: any }[] {
-  const stmt = db.prepare('SELECT timestamp, level, message, data FROM loop_logs WHERE loop_id = ? ORDER BY timestamp DESC LIMIT ?');
-  const rows = stmt.all(loopId, limit) as any[];
+function parseLogRows(rows: any[]): LogEntry[] {
   return rows.map(r => ({
     ...r,
     data: r.data ? JSON.parse(r.data) : null,
   }));
 }
 
+export function getLoopLogs(loopId: string, limit = 50): LogEntry[] {
+  const stmt = db.prepare('SELECT timestamp, level, message, data FROM loop_logs WHERE loop_id = ? ORDER BY timestamp DESC LIMIT ?');
+  return parseLogRows(stmt.all(loopId, limit) as any[]);
+}
+
+export function countLoopLogs(loopId: string, levels: LogLevel[]): number {
+  const stmt = db.prepare(`SELECT COUNT(*) as count FROM loop_logs WHERE loop_id = ? AND level IN (${levels.map(() => '?').join(', ')})`);
+  return (stmt.get(loopId, ...levels) as any).count;
+}
+
+// Newest first; a limit of -1 returns everything after the offset
+export function getLoopLogPage(loopId: string, levels: LogLevel[], limit: number, offset = 0): LogEntry[] {
+  const stmt = db.prepare(`
+    SELECT timestamp, level, message, data FROM loop_logs
+    WHERE loop_id = ? AND level IN (${levels.map(() => '?').join(', ')})
+    ORDER BY id DESC LIMIT ? OFFSET ?
+  `);
+  return parseLogRows(stmt.all(loopId, ...levels, limit, offset) as any[]);
+}
+
 // Stats
 export function getStats(): { active: number; completed_today: number; total: number } {
   const active = (db.prepare(`SELECT COUNT(*) as count FROM loops WHERE status IN ('pending', 'running', 'paused', 'waiting_approval')`).get() as any).count;
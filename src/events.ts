@@ -0,0 +1,149 @@
+import { z } from 'zod';
+
+/**
+ * Machine-readable events droid prints while it works, one per line:
+ *
+ *   LOOP_EVENT {"type":"task-started","issue":42}
+ *
+ * Output without any events (older prompts, or an agent that ignored the
+ * instructions) falls back to the regex heuristics the bot has always used.
+ */
+const EVENT_PREFIX = 'LOOP_EVENT';
+
+const LoopEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('task-started'),
+    issue: z.number().int(),
+    title: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('pr-opened'),
+    pr: z.number().int(),
+    issue: z.number().int().optional(),
+    url: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('task-skipped'),
+    issue: z.number().int(),
+    reason: z.string().optional(),
+  }),
+  z.object({
+    type: z.literal('blocked'),
+    reason: z.string(),
+    issue: z.number().int().optional(),
+  }),
+  z.object({
+    type: z.literal('done'),
+    reason: z.enum(['complete', 'no_tasks']).optional(),
+  }),
+]);
+
+export type LoopEvent = z.infer<typeof LoopEventSchema>;
+
+export interface IterationOutcome {
+  source: 'events' | 'legacy';
+  startedIssues: number[];
+  prs: { pr: number; issue: number | null }[];
+  skipped: { issue: number; reason: string | null }[];
+  blocked: { reason: string; issue: number | null }[];
+  done: boolean;
+}
+
+export const PROTOCOL_INSTRUCTIONS = `## Reporting progress
+
+The bot running you reads structured events from your output. Print each event on its own line, exactly in this form:
+
+${EVENT_PREFIX} {"type":"task-started","issue":<issue number>}
+${EVENT_PREFIX} {"type":"pr-opened","pr":<PR number>,"issue":<issue number>}
+${EVENT_PREFIX} {"type":"task-skipped","issue":<issue number>,"reason":"<why>"}
+${EVENT_PREFIX} {"type":"blocked","issue":<issue number>,"reason":"<what you need>"}
+${EVENT_PREFIX} {"type":"done","reason":"complete"}
+
+- Print task-started as soon as you pick an issue.
+- Print pr-opened after the pull request exists.
+- Print done with reason "no_tasks" if there is nothing left to work on.`;
+
+export function isEventLine(line: string): boolean {
+  return line.trim().startsWith(EVENT_PREFIX);
+}
+
+export function parseEvents(output: string): LoopEvent[] {
+  const events: LoopEvent[] = [];
+  
+  for (const line of output.split('\n')) {
+    if (!isEventLine(line)) continue;
+    const trimmed = line.trim();
+    
+    try {
+      const parsed = LoopEventSchema.safeParse(JSON.parse(trimmed.slice(EVENT_PREFIX.length)));
+      if (parsed.success) events.push(parsed.data);
+    } catch {
+      // Not JSON - ignore the line
+    }
+  }
+  
+  return events;
+}
+
+export function interpretOutput(output: string): IterationOutcome {
+  const events = parseEvents(output);
+  return events.length > 0 ? fromEvents(events) : fromLegacyOutput(output);
+}
+
+function fromEvents(events: LoopEvent[]): IterationOutcome {
+  const outcome: IterationOutcome = {
+    source: 'events',
+    startedIssues: [],
+    prs: [],
+    skipped: [],
+    blocked: [],
+    done: false,
+  };
+  
+  let lastIssue: number | null = null;
+  for (const event of events) {
+    switch (event.type) {
+      case 'task-started':
+        lastIssue = event.issue;
+        if (!outcome.startedIssues.includes(event.issue)) outcome.startedIssues.push(event.issue);
+        break;
+      case 'pr-opened':
+        // A PR without an issue belongs to the task that was started last
+        outcome.prs.push({ pr: event.pr, issue: event.issue ?? lastIssue });
+        break;
+      case 'task-skipped':
+        outcome.skipped.push({ issue: event.issue, reason: event.reason ?? null });
+        break;
+      case 'blocked':
+        outcome.blocked.push({ reason: event.reason, issue: event.issue ?? lastIssue });
+        break;
+      case 'done':
+        outcome.done = true;
+        break;
+    }
+  }
+  
+  return outcome;
+}
+
+// The original heuristics: first PR URL, first #N anywhere, and the <done> tags
+function fromLegacyOutput(output: string): IterationOutcome {
+  const outcome: IterationOutcome = {
+    source: 'legacy',
+    startedIssues: [],
+    prs: [],
+    skipped: [],
+    blocked: [],
+    done: output.includes('<done>COMPLETE</done>') || output.includes('<done>NO_TASKS</done>'),
+  };
+  
+  const prMatch = output.match(/https:\/\/github\.com\/[^\/]+\/[^\/]+\/pull\/(\d+)/);
+  if (prMatch) {
+    const issueMatch = output.match(/#(\d+)/);
+    const issue = issueMatch ? parseInt(issueMatch[1], 10) : null;
+    if (issue) outcome.startedIssues.push(issue);
+    outcome.prs.push({ pr: parseInt(prMatch[1], 10), issue });
+  }
+  
+  return outcome;
+}
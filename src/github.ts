@@ -2,11 +2,14 @@ import { Octokit } from 'octokit';
 import { getConfig, type Repo } from './config.js';
 
 let octokit: Octokit | null = null;
+let octokitToken: string | null = null;
 
 function getOctokit(): Octokit {
-  if (!octokit) {
-    const config = getConfig();
+  const config = getConfig();
+  // A config reload may have changed the token
+  if (!octokit || octokitToken !== config.github.token) {
     octokit = new Octokit({ auth: config.github.token });
+    octokitToken = config.github.token;
   }
   return octokit;
 }
@@ -27,6 +30,25 @@ export interface PR {
   html_url: string;
   state: string;
   merged: boolean;
+  head_sha: string;
+  // Only returned when fetching a single PR
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+}
+
+export type CheckState = 'success' | 'failure' | 'pending';
+
+export interface CheckResult {
+  name: string;
+  state: CheckState;
+  url: string | null;
+}
+
+export interface ChecksSummary {
+  // 'none' when nothing has reported on the commit
+  state: CheckState | 'none';
+  checks: CheckResult[];
 }
 
 export async function getOpenIssues(owner: string, repo: string): Promise<Issue[]> {
@@ -52,6 +74,29 @@ export async function getOpenIssues(owner: string, repo: string): Promise<Issue[
     }));
 }
 
+// Every open issue, for label filters that may match issues past the first page
+export async function getAllOpenIssues(owner: string, repo: string): Promise<Issue[]> {
+  const ok = getOctokit();
+  const data = await ok.paginate(ok.rest.issues.listForRepo, {
+    owner,
+    repo,
+    state: 'open',
+    per_page: 100,
+  });
+  
+  return data
+    .filter(issue => !issue.pull_request)
+    .map(issue => ({
+      number: issue.number,
+      title: issue.title,
+      body: issue.body,
+      labels: issue.labels.map(l => typeof l === 'string' ? l : l.name || ''),
+      state: issue.state,
+      html_url: issue.html_url,
+      created_at: issue.created_at,
+    }));
+}
+
 export async function getIssue(owner: string, repo: string, issueNumber: number): Promise<Issue | null> {
   const ok = getOctokit();
   try {
@@ -131,6 +176,10 @@ export async function getPR(owner: string, repo: string, prNumber: number): Prom
       html_url: data.html_url,
       state: data.state,
       merged: data.merged,
+      head_sha: data.head.sha,
+      additions: data.additions,
+      deletions: data.deletions,
+      changed_files: data.changed_files,
     };
   } catch {
     return null;
@@ -150,10 +199,12 @@ export async function getOpenPRs(owner: string, repo: string): Promise<PR[]> {
     html_url: pr.html_url,
     state: pr.state,
     merged: false, // List endpoint doesn't return merged status, only open PRs anyway
+    head_sha: pr.head.sha,
   }));
 }
 
-export async function mergePR(owner: string, repo: string, prNumber: number): Promise<boolean> {
+// With headSha, GitHub refuses the merge if the branch has moved on since that commit
+export async function mergePR(owner: string, repo: string, prNumber: number, headSha?: string): Promise<boolean> {
   const ok = getOctokit();
   try {
     await ok.rest.pulls.merge({
@@ -161,6 +212,7 @@ export async function mergePR(owner: string, repo: string, prNumber: number): Pr
       repo,
       pull_number: prNumber,
       merge_method: 'squash',
+      sha: headSha,
     });
     return true;
   } catch (e) {
@@ -169,6 +221,47 @@ export async function mergePR(owner: string, repo: string, prNumber: number): Pr
   }
 }
 
+/**
+ * Combines check runs and commit statuses for a commit. When `required` names
+ * checks, only those decide the overall state (a missing one counts as pending).
+ */
+export async function getChecks(owner: string, repo: string, ref: string, required: string[] = []): Promise<ChecksSummary> {
+  const ok = getOctokit();
+  const [{ data: runs }, { data: combined }] = await Promise.all([
+    ok.rest.checks.listForRef({ owner, repo, ref, per_page: 100 }),
+    ok.rest.repos.getCombinedStatusForRef({ owner, repo, ref, per_page: 100 }),
+  ]);
+  
+  const checks: CheckResult[] = [
+    ...runs.check_runs.map(run => ({
+      name: run.name,
+      state: checkRunState(run.status, run.conclusion),
+      url: run.html_url,
+    })),
+    ...combined.statuses.map(status => ({
+      name: status.context,
+      state: (status.state === 'success' ? 'success' : status.state === 'pending' ? 'pending' : 'failure') as CheckState,
+      url: status.target_url,
+    })),
+  ];
+  
+  const deciding = required.length > 0
+    ? required.map(name => checks.find(c => c.name === name) || { name, state: 'pending' as CheckState, url: null })
+    : checks;
+  
+  let state: ChecksSummary['state'] = 'none';
+  if (deciding.some(c => c.state === 'failure')) state = 'failure';
+  else if (deciding.some(c => c.state === 'pending')) state = 'pending';
+  else if (deciding.length > 0) state = 'success';
+  
+  return { state, checks: required.length > 0 ? deciding : checks };
+}
+
+function checkRunState(status: string, conclusion: string | null): CheckState {
+  if (status !== 'completed') return 'pending';
+  return conclusion === 'success' || conclusion === 'neutral' || conclusion === 'skipped' ? 'success' : 'failure';
+}
+
 export async function getRepoLabels(owner: string, repo: string): Promise<string[]> {
   const ok = getOctokit();
   const { data } = await ok.rest.issues.listLabelsForRepo({
@@ -1,18 +1,40 @@
 import { App, type SlackCommandMiddlewareArgs, type AllMiddlewareArgs } from '@slack/bolt';
-import { loadConfig, getConfig } from './config.js';
+import { loadConfig, getConfig, getRepo, reloadConfig, describeConfigChanges, watchConfig } from './config.js';
 import * as db from './db.js';
 import * as auth from './auth.js';
+import * as audit from './audit.js';
+import * as keys from './keys.js';
+import * as logs from './logs.js';
 import * as github from './github.js';
 import * as loop from './loop.js';
+import * as queue from './queue.js';
+import * as statusBoard from './statusboard.js';
+import { isEventLine } from './events.js';
+import * as issueSelection from './issues.js';
+import * as scheduler from './scheduler.js';
+import { isValidCron } from './cron.js';
+import { startWebhookServer, type WebhookTrigger } from './webhook.js';
+import { dashboardLink, startDashboardServer, type DashboardScope } from './dashboard.js';
 import * as views from './views.js';
+import { pruneTranscripts } from './transcripts.js';
+import { startOfDay } from './usage.js';
 
-// Load config first
-const config = loadConfig();
+// Load config first - after startup, read getConfig() so reloads take effect
+const startupConfig = loadConfig();
+
+// How often to re-read Slack user group members used in repo access lists
+const USER_GROUP_REFRESH_MS = 10 * 60 * 1000;
+
+// How often to delete droid transcripts past transcripts.retention_days
+const TRANSCRIPT_PRUNE_MS = 60 * 60 * 1000;
+
+// How long an approval card keeps polling a new PR that has no checks yet, for CI to register them
+const CHECKS_REGISTER_WAIT_MS = 10 * 60 * 1000;
 
 // Initialize Slack app
 const app = new App({
-  token: config.slack.bot_token,
-  appToken: config.slack.app_token,
+  token: startupConfig.slack.bot_token,
+  appToken: startupConfig.slack.app_token,
   socketMode: true,
 });
 
@@ -30,7 +52,8 @@ app.command('/loop', async ({ command, ack, respond, client }) => {
   
   switch (subcommand) {
     case 'start': {
-      if (!auth.canStartLoop(userId)) {
+      const repos = auth.reposForUser(userId, 'start');
+      if (repos.length === 0) {
         await respond(views.unauthorizedMessage('start loops'));
         return;
       }
@@ -38,13 +61,14 @@ app.command('/loop', async ({ command, ack, respond, client }) => {
       // Open modal for repo selection
       await client.views.open({
         trigger_id: command.trigger_id,
-        view: views.startLoopModal(config.repos),
+        view: views.startLoopModal(repos, { channelId: command.channel_id }),
       });
       break;
     }
     
     case 'stop': {
       const loopId = args[1];
+      const ctx: LoopActionContext = { client, userId, source: 'command', reply: respond };
       if (!loopId) {
         // Stop all loops for this user? Or show picker?
         const activeLoops = db.getActiveLoops();
@@ -54,12 +78,9 @@ app.command('/loop', async ({ command, ack, respond, client }) => {
         }
         
         if (activeLoops.length === 1) {
-          if (!auth.canStopLoop(userId, activeLoops[0].started_by)) {
-            await respond(views.unauthorizedMessage('stop this loop'));
-            return;
+          if (await stopLoopFor(ctx, activeLoops[0])) {
+            await respond({ text: `⏹️ Stopped loop on \`${activeLoops[0].repo_owner}/${activeLoops[0].repo_name}\`` });
           }
-          loop.stopLoopProcess(activeLoops[0].id);
-          await respond({ text: `⏹️ Stopped loop on \`${activeLoops[0].repo_owner}/${activeLoops[0].repo_name}\`` });
         } else {
           // TODO: show picker
           await respond({ text: `Multiple active loops. Specify ID: /loop stop <id>\n${activeLoops.map(l => `• ${l.id.slice(0, 8)} - ${l.repo_owner}/${l.repo_name}`).join('\n')}` });
@@ -73,13 +94,114 @@ app.command('/loop', async ({ command, ack, respond, client }) => {
         return;
       }
       
-      if (!auth.canStopLoop(userId, targetLoop.started_by)) {
-        await respond(views.unauthorizedMessage('stop this loop'));
+      if (await stopLoopFor(ctx, targetLoop)) {
+        await respond({ text: `⏹️ Stopped loop on \`${targetLoop.repo_owner}/${targetLoop.repo_name}\`` });
+      }
+      break;
+    }
+    
+    case 'show': {
+      const loopId = args[1];
+      if (!loopId) {
+        await respond({ text: 'Usage: /loop show <id>' });
+        return;
+      }
+      
+      const targetLoop = db.findLoop(loopId);
+      if (!targetLoop) {
+        await respond({ text: `Loop not found: ${loopId}` });
+        return;
+      }
+      
+      // The dashboard page shows the full log and transcripts, so it needs the same access as /loop logs
+      const link = auth.canViewLoopLogs(userId, auth.loopRepo(targetLoop)) ? dashboardLink({ loopId: targetLoop.id }) : null;
+      await respond(views.loopDetailMessage(targetLoop, db.getTasksForLoop(targetLoop.id), link));
+      break;
+    }
+    
+    case 'schedule': {
+      await handleScheduleCommand(args.slice(1), userId, command.channel_id, respond);
+      break;
+    }
+    
+    case 'role': {
+      await handleRoleCommand(args.slice(1), userId, respond);
+      break;
+    }
+    
+    case 'audit': {
+      await handleAuditCommand(args.slice(1), userId, client, respond);
+      break;
+    }
+    
+    case 'usage': {
+      await handleUsageCommand(args.slice(1), respond);
+      break;
+    }
+    
+    case 'logs': {
+      const { positional, flags } = parseFlags(args.slice(1));
+      const level = flags.level?.toLowerCase() || 'info';
+      const tail = flags.tail ? parseInt(flags.tail, 10) : null;
+      
+      if (!positional[0] || !logs.LOG_LEVELS.includes(level as db.LogLevel) || (tail !== null && !(tail > 0))) {
+        await respond({ text: 'Usage: /loop logs <id> [--level info|warn|error] [--tail N]' });
+        return;
+      }
+      
+      const targetLoop = db.findLoop(positional[0]);
+      if (!targetLoop) {
+        await respond({ text: `Loop not found: ${positional[0]}` });
+        return;
+      }
+      if (!auth.canViewLoopLogs(userId, auth.loopRepo(targetLoop))) {
+        await respond(views.unauthorizedMessage("view this loop's logs"));
         return;
       }
       
-      loop.stopLoopProcess(targetLoop.id);
-      await respond({ text: `⏹️ Stopped loop on \`${targetLoop.repo_owner}/${targetLoop.repo_name}\`` });
+      const view: logs.LogView = { loopId: targetLoop.id, level: level as db.LogLevel, tail, page: 0 };
+      await respond(views.loopLogsMessage(targetLoop, view, logs.getLogPage(view)));
+      break;
+    }
+    
+    case 'dashboard': {
+      const repoArg = args[1]?.includes('/') ? args[1] : undefined;
+      let scope: DashboardScope;
+      if (repoArg) {
+        const [owner, name] = repoArg.split('/');
+        if (!auth.canViewLoopLogs(userId, { owner, name })) {
+          await respond(views.unauthorizedMessage(`view loops on ${repoArg}`));
+          return;
+        }
+        scope = { repos: [repoArg] };
+      } else if (auth.getUserRole(userId) === 'admin') {
+        scope = {};
+      } else {
+        // Everyone else only sees the repos whose logs they could read from Slack
+        const repos = getConfig().repos.filter(r => auth.canViewLoopLogs(userId, r)).map(r => `${r.owner}/${r.name}`);
+        if (repos.length === 0) {
+          await respond(views.unauthorizedMessage('view the loop dashboard'));
+          return;
+        }
+        scope = { repos };
+      }
+      
+      const link = dashboardLink(scope);
+      await respond({
+        text: link
+          ? `📊 <${link}|Open the loop dashboard> (link valid for ${getConfig().dashboard.link_ttl_hours}h - don't share it)`
+          : 'The dashboard is off, or has no `dashboard.secret` to sign links with.',
+      });
+      break;
+    }
+    
+    case 'config': {
+      await handleConfigCommand(args.slice(1), userId, respond);
+      break;
+    }
+    
+    case 'key': {
+      await handleKeyCommand(args.slice(1), userId, command.trigger_id, client, respond);
       break;
     }
     
@@ -98,8 +220,9 @@ app.command('/task', async ({ command, ack, respond, client }) => {
   await ack();
   
   const userId = command.user_id;
+  const repos = auth.reposForUser(userId, 'create_task');
   
-  if (!auth.canCreateTask(userId)) {
+  if (repos.length === 0) {
     await respond(views.unauthorizedMessage('create tasks'));
     return;
   }
@@ -110,16 +233,17 @@ app.command('/task', async ({ command, ack, respond, client }) => {
     // Open modal
     await client.views.open({
       trigger_id: command.trigger_id,
-      view: views.createTaskModal(config.repos),
+      view: views.createTaskModal(repos),
     });
     return;
   }
   
   // Quick create: /task [repo] Title of task
   // If only one repo configured, use that
-  if (config.repos.length === 1) {
-    const repo = config.repos[0];
+  if (getConfig().repos.length === 1) {
+    const repo = getConfig().repos[0];
     const issue = await github.createIssue(repo.owner, repo.name, text);
+    audit.record(userId, 'task.create', { source: 'command', repo: `${repo.owner}/${repo.name}`, issue: issue.number });
     await respond(views.taskCreatedMessage(`${repo.owner}/${repo.name}`, issue));
     return;
   }
@@ -129,14 +253,20 @@ app.command('/task', async ({ command, ack, respond, client }) => {
   if (match) {
     const [, repoStr, title] = match;
     const [owner, name] = repoStr.split('/');
-    const repo = config.repos.find(r => r.owner === owner && r.name === name);
+    const repo = getConfig().repos.find(r => r.owner === owner && r.name === name);
     
     if (!repo) {
       await respond({ text: `Repo not configured: ${repoStr}` });
       return;
     }
     
+    if (!auth.canCreateTask(userId, repo)) {
+      await respond(views.unauthorizedMessage(`create tasks in ${repoStr}`));
+      return;
+    }
+    
     const issue = await github.createIssue(owner, name, title);
+    audit.record(userId, 'task.create', { source: 'command', repo: repoStr, issue: issue.number });
     await respond(views.taskCreatedMessage(repoStr, issue));
     return;
   }
@@ -144,77 +274,476 @@ app.command('/task', async ({ command, ack, respond, client }) => {
   // Can't determine repo, open modal
   await client.views.open({
     trigger_id: command.trigger_id,
-    view: views.createTaskModal(config.repos),
+    view: views.createTaskModal(repos),
   });
 });
 
+// /loop schedule add|list|remove
+async function handleScheduleCommand(args: string[], userId: string, channelId: string, respond: (message: any) => Promise<unknown>) {
+  const action = args[0]?.toLowerCase() || 'list';
+  
+  switch (action) {
+    case 'add': {
+      const { positional, flags } = parseFlags(args.slice(1));
+      const [repoStr, ...cronFields] = positional;
+      const cron = cronFields.join(' ');
+      const usage = 'Usage: /loop schedule add owner/repo <minute> <hour> <day> <month> <weekday> [--labels a,b] [--mode approval] [--iterations N] [--channel #channel]';
+      
+      if (!repoStr || !isValidCron(cron)) {
+        await respond({ response_type: 'ephemeral', text: usage });
+        return;
+      }
+      
+      const mode = (flags.mode ?? 'auto').toLowerCase();
+      if (mode !== 'auto' && mode !== 'approval') {
+        await respond({ response_type: 'ephemeral', text: `--mode must be auto or approval, not "${flags.mode}"\n${usage}` });
+        return;
+      }
+      const iterations = flags.iterations === undefined ? 10 : /^\d+$/.test(flags.iterations) ? parseInt(flags.iterations, 10) : NaN;
+      if (!(iterations > 0)) {
+        await respond({ response_type: 'ephemeral', text: `--iterations must be a positive whole number, not "${flags.iterations}"\n${usage}` });
+        return;
+      }
+      
+      const [owner, name] = repoStr.split('/');
+      const repo = getRepo(owner, name);
+      if (!repo) {
+        await respond({ text: `Repo not configured: ${repoStr}` });
+        return;
+      }
+      if (!auth.canStartLoop(userId, repo)) {
+        await respond(views.unauthorizedMessage(`schedule loops on ${repoStr}`));
+        return;
+      }
+      
+      const schedule = db.upsertSchedule({
+        repo_owner: owner,
+        repo_name: name,
+        cron,
+        mode,
+        iteration_max: iterations,
+        issue_labels: flags.labels ? flags.labels.split(',').map(l => l.trim()).filter(Boolean) : [],
+        channel_id: parseChannel(flags.channel) || channelId,
+        run_as: userId,
+        source: 'slack',
+        created_by: userId,
+      });
+      
+      audit.record(userId, 'schedule.add', {
+        source: 'command',
+        repo: repoStr,
+        detail: { schedule: schedule.id, cron, mode: schedule.mode, channel: schedule.channel_id },
+      });
+      await respond({ text: `⏰ Scheduled \`${repoStr}\` at \`${cron}\` (id \`${schedule.id}\`), posting to <#${schedule.channel_id}>` });
+      return;
+    }
+    
+    case 'remove': {
+      const schedule = args[1] ? db.getSchedule(args[1]) : null;
+      if (!schedule) {
+        await respond({ text: `Schedule not found: ${args[1] || ''}\nUsage: /loop schedule remove <id>` });
+        return;
+      }
+      if (schedule.source === 'config') {
+        await respond({ text: `Schedule \`${schedule.id}\` is defined in config.yaml - remove it there.` });
+        return;
+      }
+      if (!auth.canStartLoop(userId, { owner: schedule.repo_owner, name: schedule.repo_name })) {
+        await respond(views.unauthorizedMessage('remove schedules'));
+        return;
+      }
+      
+      db.deleteSchedule(schedule.id);
+      audit.record(userId, 'schedule.remove', {
+        source: 'command',
+        repo: `${schedule.repo_owner}/${schedule.repo_name}`,
+        detail: { schedule: schedule.id, cron: schedule.cron },
+      });
+      await respond({ text: `🗑️ Removed schedule \`${schedule.id}\` for \`${schedule.repo_owner}/${schedule.repo_name}\`` });
+      return;
+    }
+    
+    case 'list':
+    default:
+      await respond(views.scheduleListMessage(db.getSchedules()));
+  }
+}
+
+// /loop role grant|revoke|list - admins only
+async function handleRoleCommand(args: string[], userId: string, respond: (message: any) => Promise<unknown>) {
+  if (!auth.canEditConfig(userId)) {
+    await respond(views.unauthorizedMessage('manage roles'));
+    return;
+  }
+  
+  const action = args[0]?.toLowerCase() || 'list';
+  const current = getConfig();
+  
+  switch (action) {
+    case 'grant': {
+      const targetUser = parseUser(args[1]);
+      const role = args[2]?.toLowerCase();
+      const duration = args[3] ? parseDuration(args[3]) : null;
+      
+      if (!targetUser || (role !== 'operator' && role !== 'admin') || (args[3] && !duration)) {
+        await respond({ text: 'Usage: /loop role grant @user operator|admin [7d|12h|2w]' });
+        return;
+      }
+      
+      const expiresAt = duration ? new Date(Date.now() + duration).toISOString() : null;
+      db.saveRoleGrant(targetUser, role, userId, expiresAt);
+      audit.record(userId, 'role.grant', { source: 'command', detail: { user: targetUser, role, expires_at: expiresAt } });
+      await respond({ text: `✅ <@${targetUser}> is now ${auth.formatRole(role)}${expiresAt ? ` until ${expiresAt}` : ''}` });
+      return;
+    }
+    
+    case 'revoke': {
+      const targetUser = parseUser(args[1]);
+      if (!targetUser) {
+        await respond({ text: 'Usage: /loop role revoke @user' });
+        return;
+      }
+      
+      const removed = db.deleteRoleGrant(targetUser);
+      if (removed) {
+        audit.record(userId, 'role.revoke', { source: 'command', detail: { user: targetUser } });
+      }
+      const inConfig = current.auth.admins.includes(targetUser) || current.auth.operators.includes(targetUser);
+      const note = inConfig ? ` They are still listed in config.yaml as ${auth.formatRole(auth.getUserRole(targetUser))}.` : '';
+      
+      await respond({
+        text: removed
+          ? `🗑️ Revoked the role granted to <@${targetUser}>.${note}`
+          : `<@${targetUser}> has no role granted from Slack.${note}`,
+      });
+      return;
+    }
+    
+    case 'list':
+    default:
+      await respond(views.roleListMessage(current.auth.admins, current.auth.operators, db.getRoleGrants()));
+  }
+}
+
+// /loop audit [owner/repo] [@user] [7d|YYYY-MM-DD] [--export csv|json] - admins only
+async function handleAuditCommand(args: string[], userId: string, client: any, respond: (message: any) => Promise<unknown>) {
+  if (!auth.canEditConfig(userId)) {
+    await respond(views.unauthorizedMessage('view the audit log'));
+    return;
+  }
+  
+  const { positional, flags } = parseFlags(args);
+  const filter: db.AuditFilter = {};
+  const filters: string[] = [];
+  
+  for (const arg of positional) {
+    const user = parseUser(arg);
+    const duration = parseDuration(arg);
+    
+    if (arg.includes('/')) {
+      filter.repo = arg;
+      filters.push(`\`${arg}\``);
+    } else if (user) {
+      filter.actor = user;
+      filters.push(`<@${user}>`);
+    } else if (duration) {
+      filter.since = new Date(Date.now() - duration).toISOString();
+      filters.push(`last ${arg}`);
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(arg) && !isNaN(Date.parse(arg))) {
+      filter.since = new Date(arg).toISOString();
+      filters.push(`since ${arg}`);
+    } else {
+      await respond({ text: 'Usage: /loop audit [owner/repo] [@user] [7d|YYYY-MM-DD] [--export csv|json]' });
+      return;
+    }
+  }
+  
+  const format = flags.export?.toLowerCase();
+  if (format !== undefined && format !== 'csv' && format !== 'json') {
+    await respond({ text: 'Export format must be csv or json' });
+    return;
+  }
+  
+  const entries = db.getAuditEntries(filter);
+  if (!format) {
+    await respond(views.auditLogMessage(entries, filters));
+    return;
+  }
+  
+  // Exports go to a DM so audit data doesn't land in a shared channel
+  const stamp = new Date().toISOString().slice(0, 10);
+  await uploadToUser(client, userId, {
+    filename: `loop-audit-${stamp}.${format}`,
+    content: format === 'csv' ? audit.toCSV(entries) : audit.toJSON(entries),
+    initial_comment: `🧾 Audit export${filters.length > 0 ? ` (${filters.join(', ')})` : ''}: ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}`,
+  });
+  audit.record(userId, 'audit.export', { source: 'command', repo: filter.repo, detail: { format, actor: filter.actor, since: filter.since, entries: entries.length } });
+  
+  await respond({ text: `📤 Sent ${entries.length} audit ${entries.length === 1 ? 'entry' : 'entries'} to your DMs as ${format.toUpperCase()}.` });
+}
+
+// /loop usage [owner/repo] [@user] [7d|YYYY-MM-DD] - today (UTC) by default
+async function handleUsageCommand(args: string[], respond: (message: any) => Promise<unknown>) {
+  const filter: db.UsageFilter = {};
+  const filters: string[] = [];
+  
+  for (const arg of args.filter(Boolean)) {
+    const user = parseUser(arg);
+    const duration = parseDuration(arg);
+    
+    if (arg.includes('/')) {
+      filter.repo = arg;
+      filters.push(`\`${arg}\``);
+    } else if (user) {
+      filter.user_id = user;
+      filters.push(`<@${user}>`);
+    } else if (duration) {
+      filter.since = new Date(Date.now() - duration).toISOString();
+      filters.push(`last ${arg}`);
+    } else if (/^\d{4}-\d{2}-\d{2}$/.test(arg) && !isNaN(Date.parse(arg))) {
+      filter.since = new Date(arg).toISOString();
+      filters.push(`since ${arg}`);
+    } else {
+      await respond({ text: 'Usage: /loop usage [owner/repo] [@user] [7d|YYYY-MM-DD]' });
+      return;
+    }
+  }
+  
+  if (!filter.since) {
+    filter.since = startOfDay();
+    filters.push('today (UTC)');
+  }
+  
+  await respond(views.usageMessage(db.getUsageTotals(filter), db.getUsageBy('user_id', filter), db.getUsageBy('repo', filter), filters));
+}
+
+// /loop config reload - admins only
+async function handleConfigCommand(args: string[], userId: string, respond: (message: any) => Promise<unknown>) {
+  if (!auth.canEditConfig(userId)) {
+    await respond(views.unauthorizedMessage('reload the config'));
+    return;
+  }
+  if (args[0]?.toLowerCase() !== 'reload') {
+    await respond({ text: 'Usage: /loop config reload' });
+    return;
+  }
+  
+  const result = applyConfigReload();
+  if (result.ok) {
+    audit.record(userId, 'config.reload', { source: 'command', detail: { changes: result.changes, needs_restart: result.needsRestart } });
+  }
+  await respond(views.configReloadMessage(result));
+}
+
+// /loop key set|status|remove - each user manages their own Factory key
+async function handleKeyCommand(args: string[], userId: string, triggerId: string, client: any, respond: (message: any) => Promise<unknown>) {
+  const action = args[0]?.toLowerCase() || 'status';
+  
+  switch (action) {
+    case 'set': {
+      if (!auth.canStartLoop(userId)) {
+        await respond(views.unauthorizedMessage('save a Factory key'));
+        return;
+      }
+      if (!keys.canStoreKeys()) {
+        await respond({ text: `Key storage is disabled - an admin needs to set \`${keys.MASTER_KEY_ENV}\` for the bot.` });
+        return;
+      }
+      
+      await client.views.open({ trigger_id: triggerId, view: views.factoryKeyModal() });
+      return;
+    }
+    
+    case 'remove': {
+      if (!keys.removeKey(userId)) {
+        await respond({ text: "You don't have a saved Factory key." });
+        return;
+      }
+      
+      audit.record(userId, 'key.remove', { source: 'command' });
+      await respond({ text: '🗑️ Removed your saved Factory key.' });
+      return;
+    }
+    
+    case 'status':
+    default: {
+      const current = getConfig();
+      await respond(views.keyStatusMessage(
+        db.getUserKey(userId),
+        keys.getStoredKey(userId) !== undefined,
+        userId in current.user_keys,
+        !!current.factory?.default_api_key,
+      ));
+    }
+  }
+}
+
+// Accepts an escaped Slack mention (<@U123|name>) or a raw user ID
+function parseUser(value?: string): string | undefined {
+  if (!value) return undefined;
+  const mention = value.match(/^<@(\w+)(\|[^>]*)?>$/);
+  if (mention) return mention[1];
+  return /^[UW][A-Z0-9]+$/.test(value) ? value : undefined;
+}
+
+// "12h", "7d", "2w" in milliseconds
+function parseDuration(value: string): number | null {
+  const match = value.match(/^(\d+)([hdw])$/);
+  if (!match) return null;
+  const hours = { h: 1, d: 24, w: 24 * 7 }[match[2] as 'h' | 'd' | 'w'];
+  return parseInt(match[1], 10) * hours * 60 * 60 * 1000;
+}
+
+// Splits command arguments into positionals and --flag value pairs
+function parseFlags(args: string[]): { positional: string[]; flags: Record<string, string> } {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      flags[args[i].slice(2)] = args[i + 1] || '';
+      i++;
+    } else {
+      positional.push(args[i]);
+    }
+  }
+  
+  return { positional, flags };
+}
+
+// Accepts a raw channel ID or a Slack channel mention (<#C123|name>)
+function parseChannel(value?: string): string | undefined {
+  if (!value) return undefined;
+  const mention = value.match(/^<#(\w+)(\|[^>]*)?>$/);
+  return mention ? mention[1] : value;
+}
+
 // ============================================================
 // MODAL SUBMISSIONS
 // ============================================================
 
 app.view('start_loop_modal', async ({ ack, body, view, client }) => {
-  await ack();
-  
   const userId = body.user.id;
   const values = view.state.values;
   
   const repoValue = values.repo_block.repo_select.selected_option?.value;
+  
+  // Access may have changed since the modal was opened
+  const [repoOwner, repoName] = (repoValue || '').split('/');
+  if (repoValue && !auth.canStartLoop(userId, { owner: repoOwner, name: repoName })) {
+    await ack({ response_action: 'errors', errors: { repo_block: `You can't start loops on ${repoValue}` } });
+    return;
+  }
+  await ack();
+  
   const iterations = parseInt(values.iterations_block.iterations_input.value || '10', 10);
   const mode = values.mode_block.mode_select.selected_option?.value as 'auto' | 'approval';
+  const labels = (values.labels_block?.labels_select?.selected_options || []).map(o => o.value);
+  const issueNumbers = (values.issues_block?.issues_select?.selected_options || []).map(o => parseInt(o.value, 10));
+  const order = values.order_block?.order_select?.selected_option?.value;
   
   if (!repoValue) return;
   
   const [owner, name] = repoValue.split('/');
-  const channelId = (body as any).response_urls?.[0]?.channel_id || (body as any).channel?.id;
-  
-  // Check concurrency
-  const existingLoops = db.getLoopsForRepo(owner, name);
-  if (existingLoops.length >= config.concurrency.max_per_repo) {
-    // Can't DM from view submission easily, so we'll just proceed and log
-    console.warn(`Repo ${owner}/${name} already has ${existingLoops.length} active loops`);
-  }
+  const metadata = JSON.parse(view.private_metadata || '{}');
+  const channelId = metadata.channelId || (body as any).response_urls?.[0]?.channel_id || (body as any).channel?.id;
   
-  // Create loop
-  const newLoop = db.createLoop({
+  const newLoop = await launchLoop(client, {
     repo_owner: owner,
     repo_name: name,
     channel_id: channelId || '',
     started_by: userId,
     mode,
     iteration_max: iterations,
+    issue_labels: labels,
+    issue_numbers: issueNumbers,
+    issue_order: order,
+  });
+  audit.record(userId, 'loop.start', {
+    source: 'modal',
+    loop: newLoop,
+    detail: { mode, iterations, labels, issues: issueNumbers },
   });
+});
+
+app.view('request_changes_modal', async ({ ack, body, view, client }) => {
+  await ack();
   
-  // Get issues for initial message
-  const issues = await github.getOpenIssues(owner, name);
+  const userId = body.user.id;
+  const { loopId, channelId, threadTs } = JSON.parse(view.private_metadata || '{}');
+  const feedback = view.state.values.feedback_block.feedback_input.value?.trim();
   
-  // Post initial message
-  let threadTs: string | undefined;
-  if (channelId) {
-    const result = await client.chat.postMessage({
+  const targetLoop = db.getLoop(loopId);
+  if (!targetLoop || !feedback) return;
+  
+  try {
+    await loop.requestChanges(loopId, feedback, userId, callbacksForLoop(targetLoop, client));
+  } catch (err) {
+    await client.chat.postEphemeral({
       channel: channelId,
-      ...views.loopStartedMessage(newLoop, issues),
+      user: userId,
+      text: `❌ ${err instanceof Error ? err.message : String(err)}`,
     });
-    threadTs = result.ts;
+    return;
   }
   
-  // Start the loop with callbacks
-  startLoopWithCallbacks(newLoop.id, client, channelId, threadTs);
+  audit.record(userId, 'loop.request_changes', { source: 'modal', loop: targetLoop, detail: { feedback } });
+  
+  await client.chat.postMessage({
+    channel: channelId,
+    thread_ts: threadTs,
+    text: `✏️ Changes requested by <@${userId}> on PR #${targetLoop.current_pr} - revising...\n>${feedback.split('\n').join('\n>')}`,
+  });
 });
 
-app.view('create_task_modal', async ({ ack, body, view, client }) => {
-  await ack();
+app.view('factory_key_modal', async ({ ack, body, view, client }) => {
+  const userId = body.user.id;
+  const apiKey = view.state.values.key_block.key_input.value?.trim();
+  
+  if (!apiKey || /\s/.test(apiKey)) {
+    await ack({ response_action: 'errors', errors: { key_block: 'Paste the key on its own, without spaces' } });
+    return;
+  }
+  
+  // Validation runs droid, which takes longer than Slack waits for an ack
+  await ack({ response_action: 'update', view: views.factoryKeyResultView('⏳ Checking your key with droid...') });
+  
+  const error = await keys.validateKey(apiKey);
+  if (error) {
+    await client.views.update({
+      view_id: view.id,
+      view: views.factoryKeyResultView(`❌ That key didn't work, so it wasn't saved.\n\n\`\`\`${error}\`\`\``),
+    });
+    return;
+  }
+  
+  keys.saveKey(userId, apiKey);
+  audit.record(userId, 'key.set', { source: 'modal' });
   
+  await client.views.update({
+    view_id: view.id,
+    view: views.factoryKeyResultView('✅ Key saved. Loops you start from now on will use it.'),
+  });
+});
+
+app.view('create_task_modal', async ({ ack, body, view, client }) => {
   const values = view.state.values;
   
   const repoValue = values.repo_block.repo_select.selected_option?.value;
   const title = values.title_block.title_input.value;
   const description = values.body_block.body_input?.value;
   
-  if (!repoValue || !title) return;
+  const [owner, name] = (repoValue || '').split('/');
+  if (repoValue && !auth.canCreateTask(body.user.id, { owner, name })) {
+    await ack({ response_action: 'errors', errors: { repo_block: `You can't create tasks in ${repoValue}` } });
+    return;
+  }
+  await ack();
   
-  const [owner, name] = repoValue.split('/');
+  if (!repoValue || !title) return;
   
   const issue = await github.createIssue(owner, name, title, description || undefined);
+  audit.record(body.user.id, 'task.create', { source: 'modal', repo: repoValue, issue: issue.number });
   
   // Try to respond in channel
   const channelId = (body as any).response_urls?.[0]?.channel_id;
@@ -232,85 +761,107 @@ app.view('create_task_modal', async ({ ack, body, view, client }) => {
 
 app.action('stop_loop', async ({ ack, body, client, action }) => {
   await ack();
-  
-  const userId = body.user.id;
-  const loopId = (action as any).value;
-  
-  const targetLoop = db.getLoop(loopId);
-  if (!targetLoop) return;
-  
-  if (!auth.canStopLoop(userId, targetLoop.started_by)) {
-    await client.chat.postEphemeral({
-      channel: (body as any).channel?.id || '',
-      user: userId,
-      text: "🚫 You don't have permission to stop this loop.",
-    });
-    return;
-  }
-  
-  loop.stopLoopProcess(loopId);
-  
-  await client.chat.postMessage({
-    channel: (body as any).channel?.id || '',
-    thread_ts: (body as any).message?.thread_ts || (body as any).message?.ts,
-    text: `⏹️ Loop stopped by <@${userId}>`,
-  });
+  await handleLoopControl(body, client, (action as any).value, 'stop');
 });
 
 app.action('approve_loop', async ({ ack, body, client, action }) => {
   await ack();
+  await handleLoopControl(body, client, (action as any).value, 'approve');
+});
+
+app.action('approve_loop_override', async ({ ack, body, client, action }) => {
+  await ack();
+  await handleLoopControl(body, client, (action as any).value, 'approve_override');
+});
+
+app.action('request_changes', async ({ ack, body, client, action }) => {
+  await ack();
+  await handleLoopControl(body, client, (action as any).value, 'request_changes');
+});
+
+app.action('skip_loop', async ({ ack, body, client, action }) => {
+  await ack();
+  await handleLoopControl(body, client, (action as any).value, 'skip');
+});
+
+app.action('resume_loop', async ({ ack, body, client, action }) => {
+  await ack();
+  await handleLoopControl(body, client, (action as any).value, 'resume');
+});
+
+app.action('retry_loop', async ({ ack, body, client, action }) => {
+  await ack();
+  await handleLoopControl(body, client, (action as any).value, 'retry');
+});
+
+// "Yes, go ahead" on the confirmation shown under auth.loop_control: confirm
+app.action('confirm_loop_control', async ({ ack, body, client, action, respond }) => {
+  await ack();
+  await respond({ delete_original: true });
   
-  const userId = body.user.id;
-  const loopId = (action as any).value;
-  
-  if (!auth.canApprove(userId)) {
-    await client.chat.postEphemeral({
-      channel: (body as any).channel?.id || '',
-      user: userId,
-      text: "🚫 You don't have permission to approve.",
-    });
-    return;
-  }
+  const { loopId, action: control } = JSON.parse((action as any).value);
+  await handleLoopControl(body, client, loopId, control, true);
+});
+
+app.action('cancel_loop_control', async ({ ack, respond }) => {
+  await ack();
+  await respond({ delete_original: true });
+});
+
+// Next/Prev on a /loop logs message - the view travels in the button value
+async function handleLogsPage({ ack, body, action, respond }: any) {
+  await ack();
   
-  const targetLoop = db.getLoop(loopId);
+  const view: logs.LogView = JSON.parse(action.value);
+  const targetLoop = db.getLoop(view.loopId);
   if (!targetLoop) return;
+  if (!auth.canViewLoopLogs(body.user.id, auth.loopRepo(targetLoop))) {
+    await respond({ response_type: 'ephemeral', replace_original: false, ...views.unauthorizedMessage("view this loop's logs") });
+    return;
+  }
   
-  await client.chat.postMessage({
-    channel: (body as any).channel?.id || '',
-    thread_ts: (body as any).message?.thread_ts || (body as any).message?.ts,
-    text: `✅ Approved by <@${userId}> - merging and continuing...`,
-  });
-  
-  await loop.approveAndContinue(loopId);
-});
+  await respond({ replace_original: true, ...views.loopLogsMessage(targetLoop, view, logs.getLogPage(view)) });
+}
 
-app.action('skip_loop', async ({ ack, body, client, action }) => {
+app.action('loop_logs_prev', handleLogsPage);
+app.action('loop_logs_next', handleLogsPage);
+
+app.action('loop_logs_download', async ({ ack, body, client, action, respond }) => {
   await ack();
   
-  const userId = body.user.id;
-  const loopId = (action as any).value;
+  const targetLoop = db.getLoop((action as any).value);
+  if (!targetLoop) return;
+  if (!auth.canViewLoopLogs(body.user.id, auth.loopRepo(targetLoop))) {
+    await respond({ response_type: 'ephemeral', replace_original: false, ...views.unauthorizedMessage("download this loop's logs") });
+    return;
+  }
   
-  if (!auth.canApprove(userId)) {
-    await client.chat.postEphemeral({
-      channel: (body as any).channel?.id || '',
-      user: userId,
-      text: "🚫 You don't have permission to skip.",
+  try {
+    await uploadToUser(client, body.user.id, {
+      filename: `loop-${targetLoop.id.slice(0, 8)}.log`,
+      content: logs.fullLogText(targetLoop),
+      initial_comment: `📜 Full log for loop \`${targetLoop.id.slice(0, 8)}\` on \`${targetLoop.repo_owner}/${targetLoop.repo_name}\``,
     });
+  } catch (err) {
+    console.error('Failed to upload loop log:', err);
+    await respond({ response_type: 'ephemeral', replace_original: false, text: `❌ Couldn't upload the log: ${err instanceof Error ? err.message : String(err)}` });
     return;
   }
   
-  await client.chat.postMessage({
-    channel: (body as any).channel?.id || '',
-    thread_ts: (body as any).message?.thread_ts || (body as any).message?.ts,
-    text: `⏭️ Skipped by <@${userId}> - continuing...`,
-  });
-  
-  loop.skipAndContinue(loopId);
+  await respond({ response_type: 'ephemeral', replace_original: false, text: '📤 Sent the full log and droid transcripts to your DMs.' });
 });
 
 app.action('refresh_status', async ({ ack, body, client, respond }) => {
   await ack();
   
+  // The pinned board is edited in place rather than answered
+  const channelId = (body as any).channel?.id;
+  const messageTs = (body as any).message?.ts;
+  if (channelId && messageTs && statusBoard.isStatusBoard(channelId, messageTs)) {
+    await statusBoard.refreshStatusBoard(client, channelId);
+    return;
+  }
+  
   const activeLoops = db.getActiveLoops();
   const stats = db.getStats();
   
@@ -320,18 +871,38 @@ app.action('refresh_status', async ({ ack, body, client, respond }) => {
 app.action('open_start_modal', async ({ ack, body, client }) => {
   await ack();
   
+  const repos = auth.reposForUser(body.user.id, 'start');
+  if (repos.length === 0) {
+    await client.chat.postEphemeral({
+      channel: (body as any).channel?.id || '',
+      user: body.user.id,
+      text: "🚫 You don't have permission to start loops.",
+    });
+    return;
+  }
+  
   await client.views.open({
     trigger_id: (body as any).trigger_id,
-    view: views.startLoopModal(config.repos),
+    view: views.startLoopModal(repos, { channelId: (body as any).channel?.id }),
   });
 });
 
 app.action('open_task_modal', async ({ ack, body, client }) => {
   await ack();
   
+  const repos = auth.reposForUser(body.user.id, 'create_task');
+  if (repos.length === 0) {
+    await client.chat.postEphemeral({
+      channel: (body as any).channel?.id || '',
+      user: body.user.id,
+      text: "🚫 You don't have permission to create tasks.",
+    });
+    return;
+  }
+  
   await client.views.open({
     trigger_id: (body as any).trigger_id,
-    view: views.createTaskModal(config.repos),
+    view: views.createTaskModal(repos),
   });
 });
 
@@ -340,8 +911,9 @@ app.action('start_loop_for_repo', async ({ ack, body, client, action }) => {
   
   const userId = body.user.id;
   const repoValue = (action as any).value;
+  const [owner, name] = repoValue.split('/');
   
-  if (!auth.canStartLoop(userId)) {
+  if (!auth.canStartLoop(userId, { owner, name })) {
     await client.chat.postEphemeral({
       channel: (body as any).channel?.id || '',
       user: userId,
@@ -350,66 +922,156 @@ app.action('start_loop_for_repo', async ({ ack, body, client, action }) => {
     return;
   }
   
-  const [owner, name] = repoValue.split('/');
-  const channelId = (body as any).channel?.id || '';
-  
-  const newLoop = db.createLoop({
-    repo_owner: owner,
-    repo_name: name,
-    channel_id: channelId,
-    started_by: userId,
-    mode: 'auto',
-    iteration_max: 10,
+  // Open the start modal with the repo picked, then fill in its issues
+  const result = await client.views.open({
+    trigger_id: (body as any).trigger_id,
+    view: views.startLoopModal(auth.reposForUser(userId, 'start'), { channelId: (body as any).channel?.id, repo: repoValue }),
   });
   
-  const issues = await github.getOpenIssues(owner, name);
+  if (result.view) {
+    await loadStartModalIssues(client, result.view, repoValue, userId);
+  }
+});
+
+app.action('repo_select', async ({ ack, body, client, action }) => {
+  await ack();
   
-  const result = await client.chat.postMessage({
-    channel: channelId,
-    ...views.loopStartedMessage(newLoop, issues),
-  });
+  // Only the start modal dispatches repo changes; the task modal just reads the value on submit
+  const view = (body as any).view;
+  if (view?.callback_id !== 'start_loop_modal') return;
   
-  startLoopWithCallbacks(newLoop.id, client, channelId, result.ts);
+  const repoValue = (action as any).selected_option?.value;
+  if (repoValue) {
+    await loadStartModalIssues(client, view, repoValue, body.user.id);
+  }
 });
 
 // Ignore select actions (used in modals)
 app.action('select_repo', async ({ ack }) => { await ack(); });
-app.action('repo_select', async ({ ack }) => { await ack(); });
 app.action('iterations_input', async ({ ack }) => { await ack(); });
 app.action('mode_select', async ({ ack }) => { await ack(); });
+// Link buttons open in the browser, but Slack still sends the click
+app.action('open_dashboard', async ({ ack }) => { await ack(); });
+
+// ============================================================
+// THREAD REPLIES
+// ============================================================
+
+// Replies in a loop's thread steer the agent on its next iteration
+app.message(async ({ message, client }) => {
+  const msg = message as any;
+  if (!msg.thread_ts || msg.thread_ts === msg.ts) return;
+  if (msg.subtype || msg.bot_id || !msg.user || !msg.text?.trim()) return;
+  
+  const targetLoop = db.getLoopByThread(msg.channel, msg.thread_ts);
+  if (!targetLoop) return;
+  
+  // Viewers can chat in the thread without steering the agent
+  if (auth.getUserRole(msg.user) === 'viewer') return;
+  
+  // Steering takes the same repo access and ownership policy as approving
+  if (!auth.canApprove(msg.user, auth.loopRepo(targetLoop)) || auth.loopAccess(msg.user, targetLoop.started_by) === 'denied') {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      thread_ts: msg.thread_ts,
+      text: `You can't steer this loop on \`${targetLoop.repo_owner}/${targetLoop.repo_name}\`, so your reply won't reach the agent.`,
+    });
+    return;
+  }
+  
+  if (!['queued', 'pending', 'running', 'paused', 'waiting_approval'].includes(targetLoop.status)) {
+    await client.chat.postEphemeral({
+      channel: msg.channel,
+      user: msg.user,
+      thread_ts: msg.thread_ts,
+      text: `This loop has finished (${targetLoop.status}), so your reply won't reach the agent.`,
+    });
+    return;
+  }
+  
+  loop.addGuidance(targetLoop.id, msg.text.trim(), msg.user);
+  audit.record(msg.user, 'loop.guidance', { source: 'message', loop: targetLoop, detail: { text: msg.text.trim() } });
+  
+  await client.reactions.add({
+    channel: msg.channel,
+    timestamp: msg.ts,
+    name: 'memo',
+  }).catch((err: unknown) => console.error('Failed to acknowledge thread reply:', err));
+});
 
 // ============================================================
 // HELPER FUNCTIONS
 // ============================================================
 
-function startLoopWithCallbacks(loopId: string, client: any, channelId: string, threadTs?: string) {
-  loop.startLoop(loopId, {
+function loopCallbacks(client: any, channelId: string, threadTs?: string): loop.LoopCallbacks {
+  // One live progress message per iteration, edited in place
+  let progressMessage: { iteration: number; ts?: string } | null = null;
+  let progressUpdates: Promise<unknown> = Promise.resolve();
+  
+  return {
     onStart: (l) => {
       db.startLoop(l.id, threadTs);
+      statusBoard.refreshStatusBoard(client, channelId);
+    },
+    
+    onProgress: (l, progress) => {
+      if (!channelId || !getConfig().notifications.thread_updates) return;
+      
+      // Chain updates so the first post has its ts before we try to edit it
+      progressUpdates = progressUpdates.then(async () => {
+        const message = views.iterationProgressMessage(l, progress);
+        if (progressMessage?.iteration === progress.iteration && progressMessage.ts) {
+          await client.chat.update({ channel: channelId, ts: progressMessage.ts, ...message });
+        } else {
+          const result = await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, ...message });
+          progressMessage = { iteration: progress.iteration, ts: result.ts };
+        }
+      }).catch(err => console.error('Failed to update progress message:', err));
     },
     
     onIteration: async (l, iteration, output) => {
       // Extract a summary from output
       const summary = extractSummary(output);
       
-      if (channelId && config.notifications.thread_updates) {
+      if (channelId && getConfig().notifications.thread_updates) {
         await client.chat.postMessage({
           channel: channelId,
           thread_ts: threadTs,
           ...views.iterationUpdateMessage(l, iteration, summary),
         });
       }
+      statusBoard.refreshStatusBoard(client, channelId);
     },
     
     onWaitingApproval: async (l, issueNumber, prNumber) => {
       const issue = issueNumber ? await github.getIssue(l.repo_owner, l.repo_name, issueNumber) : null;
-      const pr = await github.getPR(l.repo_owner, l.repo_name, prNumber);
+      const status = await loop.getPRChecks(l).catch(err => {
+        console.error('Failed to load PR checks:', err);
+        return null;
+      });
+      const pr = status?.pr || await github.getPR(l.repo_owner, l.repo_name, prNumber);
       
       if (channelId && pr) {
+        const result = await client.chat.postMessage({
+          channel: channelId,
+          thread_ts: threadTs,
+          ...views.waitingApprovalMessage(l, issue, pr, status?.checks),
+        });
+        
+        if (result.ts && (status?.checks.state === 'pending' || status?.checks.state === 'none')) {
+          watchApprovalCard(client, channelId, result.ts, l.id, issue);
+        }
+      }
+      statusBoard.refreshStatusBoard(client, channelId);
+    },
+    
+    onBlocked: async (l, reason, issueNumber) => {
+      if (channelId) {
         await client.chat.postMessage({
           channel: channelId,
           thread_ts: threadTs,
-          ...views.waitingApprovalMessage(l, issue, pr),
+          ...views.loopBlockedMessage(l, reason, issueNumber),
         });
       }
     },
@@ -422,6 +1084,7 @@ function startLoopWithCallbacks(loopId: string, client: any, channelId: string,
           ...views.loopCompleteMessage(l),
         });
       }
+      statusBoard.refreshStatusBoard(client, channelId);
     },
     
     onError: async (l, error) => {
@@ -432,15 +1095,476 @@ function startLoopWithCallbacks(loopId: string, client: any, channelId: string,
           ...views.loopErrorMessage(l, error),
         });
       }
+      statusBoard.refreshStatusBoard(client, channelId);
+    },
+    
+    onTimeout: async (l, error) => {
+      if (channelId) {
+        await client.chat.postMessage({
+          channel: channelId,
+          thread_ts: threadTs,
+          ...views.loopTimeoutMessage(l, error.message),
+        });
+      }
+      statusBoard.refreshStatusBoard(client, channelId);
+    },
+    
+    onBudgetExceeded: async (l, exceeded) => {
+      audit.record('system', 'loop.stop', { source: 'budget', loop: l, detail: { ...exceeded } });
+      if (channelId) {
+        await client.chat.postMessage({
+          channel: channelId,
+          thread_ts: threadTs,
+          ...views.budgetExceededMessage(l, exceeded),
+        });
+      }
+      statusBoard.refreshStatusBoard(client, channelId);
     },
-  }).catch(err => {
+  };
+}
+
+// Callbacks for an existing loop, posting into the thread it was started in
+function callbacksForLoop(l: db.Loop, client: any): loop.LoopCallbacks {
+  return loopCallbacks(client, l.channel_id, l.thread_ts || undefined);
+}
+
+// Someone acting on a loop from a button, and how to answer them privately
+interface LoopActionContext {
+  client: any;
+  userId: string;
+  source: audit.AuditSource;
+  triggerId?: string;
+  reply: (message: any) => Promise<unknown>;
+}
+
+async function handleLoopControl(body: any, client: any, loopId: string, action: views.LoopControlAction, confirmed = false) {
+  const targetLoop = db.getLoop(loopId);
+  if (!targetLoop) return;
+  
+  const channelId = body.channel?.id || targetLoop.channel_id;
+  const ctx: LoopActionContext = {
+    client,
+    userId: body.user.id,
+    source: 'button',
+    triggerId: body.trigger_id,
+    reply: message => client.chat.postEphemeral({ channel: channelId, user: body.user.id, ...message }),
+  };
+  
+  switch (action) {
+    case 'stop': await stopLoopFor(ctx, targetLoop, confirmed); break;
+    case 'approve': await approveLoopFor(ctx, targetLoop, false, confirmed); break;
+    case 'approve_override': await approveLoopFor(ctx, targetLoop, true, confirmed); break;
+    case 'request_changes': await requestChangesFor(ctx, targetLoop, confirmed); break;
+    case 'skip': await skipLoopFor(ctx, targetLoop, confirmed); break;
+    case 'resume': await resumeLoopFor(ctx, targetLoop, confirmed); break;
+    case 'retry': await retryLoopFor(ctx, targetLoop, confirmed); break;
+  }
+}
+
+/**
+ * Applies auth.loop_control once the role and repo checks have passed: acting on
+ * someone else's loop is refused (naming the owner) or needs a confirmation first.
+ */
+async function checkLoopControl(ctx: LoopActionContext, targetLoop: db.Loop, action: views.LoopControlAction, confirmed: boolean): Promise<boolean> {
+  const access = auth.loopAccess(ctx.userId, targetLoop.started_by);
+  
+  if (access === 'denied') {
+    await ctx.reply(views.loopOwnerDeniedMessage(targetLoop, action));
+    return false;
+  }
+  if (access === 'confirm' && !confirmed) {
+    await ctx.reply(views.loopControlConfirmMessage(targetLoop, action));
+    return false;
+  }
+  return true;
+}
+
+// Post into the loop's own thread - confirmations arrive from ephemeral messages outside it
+function postToLoopThread(client: any, targetLoop: db.Loop, text: string) {
+  return client.chat.postMessage({
+    channel: targetLoop.channel_id,
+    thread_ts: targetLoop.thread_ts || undefined,
+    text,
+  });
+}
+
+async function stopLoopFor(ctx: LoopActionContext, targetLoop: db.Loop, confirmed = false): Promise<boolean> {
+  // Role only - ownership goes through checkLoopControl so the denial can name the owner
+  if (!auth.canStopLoop(ctx.userId)) {
+    await ctx.reply(views.unauthorizedMessage('stop this loop'));
+    return false;
+  }
+  if (!(await checkLoopControl(ctx, targetLoop, 'stop', confirmed))) return false;
+  
+  if (!loop.stopLoopProcess(targetLoop.id)) {
+    await ctx.reply({ text: `Loop \`${targetLoop.id.slice(0, 8)}\` is not running (${targetLoop.status}), so there was nothing to stop.` });
+    return false;
+  }
+  audit.record(ctx.userId, 'loop.stop', { source: ctx.source, loop: targetLoop });
+  statusBoard.refreshStatusBoard(ctx.client, targetLoop.channel_id);
+  await postToLoopThread(ctx.client, targetLoop, `⏹️ Loop stopped by <@${ctx.userId}>`);
+  return true;
+}
+
+async function approveLoopFor(ctx: LoopActionContext, targetLoop: db.Loop, override: boolean, confirmed: boolean) {
+  if (!auth.canApprove(ctx.userId, auth.loopRepo(targetLoop))) {
+    await ctx.reply({ text: "🚫 You don't have permission to approve." });
+    return;
+  }
+  if (targetLoop.status !== 'waiting_approval') {
+    await ctx.reply({ text: 'This loop is no longer waiting for approval.' });
+    return;
+  }
+  if (!(await checkLoopControl(ctx, targetLoop, override ? 'approve_override' : 'approve', confirmed))) return;
+  
+  // Check before announcing anything - approveAndContinue enforces this again
+  if (!override) {
+    const status = await loop.getPRChecks(targetLoop);
+    if (status?.checks.state === 'failure' || status?.checks.state === 'pending') {
+      await ctx.reply({
+        text: `🚫 Can't merge PR #${status.pr.number} yet - checks are ${status.checks.state === 'failure' ? 'failing' : 'still running'}. Use *Merge Anyway* on the card to override.`,
+      });
+      return;
+    }
+  }
+  
+  await postToLoopThread(ctx.client, targetLoop, override
+    ? `⚠️ Approved by <@${ctx.userId}> without green checks - merging and continuing...`
+    : `✅ Approved by <@${ctx.userId}> - merging and continuing...`);
+  
+  try {
+    await loop.approveAndContinue(targetLoop.id, callbacksForLoop(targetLoop, ctx.client), { override });
+    audit.record(ctx.userId, override ? 'loop.approve_override' : 'loop.approve', { source: ctx.source, loop: targetLoop });
+  } catch (err) {
+    await ctx.reply({ text: `❌ ${err instanceof Error ? err.message : String(err)}` });
+  }
+}
+
+async function requestChangesFor(ctx: LoopActionContext, targetLoop: db.Loop, confirmed: boolean) {
+  if (!auth.canApprove(ctx.userId, auth.loopRepo(targetLoop))) {
+    await ctx.reply({ text: "🚫 You don't have permission to request changes." });
+    return;
+  }
+  if (targetLoop.status !== 'waiting_approval') {
+    await ctx.reply({ text: 'This loop is no longer waiting for approval.' });
+    return;
+  }
+  if (!(await checkLoopControl(ctx, targetLoop, 'request_changes', confirmed))) return;
+  
+  await ctx.client.views.open({
+    trigger_id: ctx.triggerId,
+    view: views.requestChangesModal(targetLoop, targetLoop.channel_id, targetLoop.thread_ts || undefined),
+  });
+}
+
+async function skipLoopFor(ctx: LoopActionContext, targetLoop: db.Loop, confirmed: boolean) {
+  if (!auth.canApprove(ctx.userId, auth.loopRepo(targetLoop))) {
+    await ctx.reply({ text: "🚫 You don't have permission to skip." });
+    return;
+  }
+  if (targetLoop.status !== 'waiting_approval') {
+    await ctx.reply({ text: 'This loop is no longer waiting for approval.' });
+    return;
+  }
+  if (!(await checkLoopControl(ctx, targetLoop, 'skip', confirmed))) return;
+  
+  audit.record(ctx.userId, 'loop.skip', { source: ctx.source, loop: targetLoop });
+  await postToLoopThread(ctx.client, targetLoop, `⏭️ Skipped by <@${ctx.userId}> - continuing...`);
+  loop.skipAndContinue(targetLoop.id, callbacksForLoop(targetLoop, ctx.client));
+}
+
+async function resumeLoopFor(ctx: LoopActionContext, targetLoop: db.Loop, confirmed: boolean) {
+  if (!auth.canStartLoop(ctx.userId, auth.loopRepo(targetLoop))) {
+    await ctx.reply({ text: "🚫 You don't have permission to resume loops." });
+    return;
+  }
+  if (targetLoop.status !== 'paused') {
+    await ctx.reply({ text: 'This loop is no longer paused.' });
+    return;
+  }
+  if (!(await checkLoopControl(ctx, targetLoop, 'resume', confirmed))) return;
+  
+  audit.record(ctx.userId, 'loop.resume', { source: ctx.source, loop: targetLoop });
+  await postToLoopThread(ctx.client, targetLoop, `▶️ Resumed by <@${ctx.userId}>`);
+  loop.resumeLoop(targetLoop.id, callbacksForLoop(targetLoop, ctx.client)).catch(err => {
+    console.error('Error resuming loop:', err);
+  });
+}
+
+// Re-run an iteration the watchdog killed - started now or queued, like a new loop
+async function retryLoopFor(ctx: LoopActionContext, targetLoop: db.Loop, confirmed: boolean) {
+  if (!auth.canStartLoop(ctx.userId, auth.loopRepo(targetLoop))) {
+    await ctx.reply({ text: "🚫 You don't have permission to retry loops." });
+    return;
+  }
+  if (!loop.isTimedOut(targetLoop)) {
+    await ctx.reply({ text: 'This loop can no longer be retried.' });
+    return;
+  }
+  if (!(await checkLoopControl(ctx, targetLoop, 'retry', confirmed))) return;
+  
+  audit.record(ctx.userId, 'loop.retry', { source: ctx.source, loop: targetLoop, detail: { failure_reason: targetLoop.failure_reason } });
+  
+  // Checked before the retry claims a slot, so the loop doesn't count against itself
+  const canRun = queue.hasCapacity(targetLoop.repo_owner, targetLoop.repo_name);
+  loop.prepareRetry(targetLoop.id);
+  if (canRun) {
+    await postToLoopThread(ctx.client, targetLoop, `🔁 Retry started by <@${ctx.userId}>`);
+    startLoopWithCallbacks(targetLoop.id, ctx.client, targetLoop.channel_id, targetLoop.thread_ts || undefined);
+  } else {
+    const position = queue.enqueue(targetLoop.id);
+    await postToLoopThread(ctx.client, targetLoop, `🔁 Retry requested by <@${ctx.userId}> - queued at position ${position}`);
+  }
+  statusBoard.refreshStatusBoard(ctx.client, targetLoop.channel_id);
+}
+
+// Files go to the user's DM with the bot, so they don't land in a shared channel
+async function uploadToUser(client: any, userId: string, file: { filename: string; content: string; initial_comment: string }) {
+  const dm = await client.conversations.open({ users: userId });
+  await client.files.uploadV2({ channel_id: dm.channel.id, ...file });
+}
+
+// Re-render an approval card until its checks settle or the loop moves on
+// Keeps an approval card up to date until its checks finish, or no checks have shown up for a while
+function watchApprovalCard(client: any, channelId: string, ts: string, loopId: string, issue: github.Issue | null) {
+  const startedAt = Date.now();
+  const timer = setInterval(async () => {
+    const l = db.getLoop(loopId);
+    if (!l || l.status !== 'waiting_approval') {
+      clearInterval(timer);
+      return;
+    }
+    
+    try {
+      const status = await loop.getPRChecks(l);
+      if (!status) return;
+      
+      await client.chat.update({
+        channel: channelId,
+        ts,
+        ...views.waitingApprovalMessage(l, issue, status.pr, status.checks),
+      });
+      
+      const waitingForChecks = status.checks.state === 'none' && Date.now() - startedAt < CHECKS_REGISTER_WAIT_MS;
+      if (status.checks.state !== 'pending' && !waitingForChecks) clearInterval(timer);
+    } catch (err) {
+      console.error('Failed to refresh approval card:', err);
+    }
+  }, getConfig().notifications.checks_poll_ms);
+}
+
+function startLoopWithCallbacks(loopId: string, client: any, channelId: string, threadTs?: string, options?: loop.StartOptions) {
+  loop.startLoop(loopId, loopCallbacks(client, channelId, threadTs), options).catch(err => {
     console.error('Loop error:', err);
   });
 }
 
+// Fill the start modal with the picked repo's labels and open issues
+async function loadStartModalIssues(client: any, view: any, repoValue: string, userId: string) {
+  const [owner, name] = repoValue.split('/');
+  const { channelId } = JSON.parse(view.private_metadata || '{}');
+  
+  const [labels, issues] = await Promise.all([
+    github.getRepoLabels(owner, name),
+    github.getOpenIssues(owner, name),
+  ]);
+  
+  await client.views.update({
+    view_id: view.id,
+    hash: view.hash,
+    view: views.startLoopModal(auth.reposForUser(userId, 'start'), { channelId, repo: repoValue, labels, issues }),
+  });
+}
+
+// Create a loop and start it, or queue it if the concurrency limits are reached
+async function launchLoop(client: any, data: Parameters<typeof db.createLoop>[0]): Promise<db.Loop> {
+  const canRun = queue.hasCapacity(data.repo_owner, data.repo_name);
+  const newLoop = db.createLoop(data);
+  const position = canRun ? 0 : queue.enqueue(newLoop.id);
+  
+  // Get issues for initial message
+  const issues = canRun ? await issueSelection.remainingIssues(newLoop) : [];
+  
+  // Post initial message - its thread is where all updates go
+  let threadTs: string | undefined;
+  if (data.channel_id) {
+    const current = db.getLoop(newLoop.id)!;
+    const result = await client.chat.postMessage({
+      channel: data.channel_id,
+      ...(canRun ? views.loopStartedMessage(current, issues) : views.loopQueuedMessage(current, position)),
+    });
+    threadTs = result.ts;
+    db.updateLoop(newLoop.id, { thread_ts: threadTs || null });
+  }
+  
+  if (canRun) {
+    startLoopWithCallbacks(newLoop.id, client, data.channel_id, threadTs);
+  } else {
+    statusBoard.refreshStatusBoard(client, data.channel_id);
+  }
+  
+  return db.getLoop(newLoop.id)!;
+}
+
+// Start a loop for a due schedule, in the schedule's channel or the repo's
+async function runSchedule(schedule: db.Schedule) {
+  const repo = getRepo(schedule.repo_owner, schedule.repo_name);
+  if (!repo) {
+    console.warn(`Schedule ${schedule.id}: repo ${schedule.repo_owner}/${schedule.repo_name} is no longer configured`);
+    return;
+  }
+  
+  const channelId = schedule.channel_id || repo.channel;
+  if (!channelId) {
+    console.warn(`Schedule ${schedule.id}: no channel configured for ${schedule.repo_owner}/${schedule.repo_name}`);
+    return;
+  }
+  
+  // Slack schedules run as whoever made them, so they stop once that user loses access
+  const runAs = schedule.run_as || schedule.created_by;
+  if (schedule.source === 'slack' && !auth.canStartLoop(runAs, repo)) {
+    console.warn(`Schedule ${schedule.id}: ${runAs} can no longer start loops on ${schedule.repo_owner}/${schedule.repo_name} - skipped`);
+    await app.client.chat.postMessage({
+      channel: channelId,
+      text: `⏰ Skipped schedule \`${schedule.id}\` (\`${schedule.cron}\`): <@${runAs}> can no longer start loops on \`${schedule.repo_owner}/${schedule.repo_name}\`. Remove it with \`/loop schedule remove ${schedule.id}\` or ask an admin to restore their access.`,
+    });
+    return;
+  }
+  
+  const newLoop = await launchLoop(app.client, {
+    repo_owner: schedule.repo_owner,
+    repo_name: schedule.repo_name,
+    channel_id: channelId,
+    started_by: runAs,
+    mode: schedule.mode,
+    iteration_max: schedule.iteration_max,
+    issue_labels: schedule.issue_labels ? JSON.parse(schedule.issue_labels) : [],
+  });
+  
+  db.logLoop(newLoop.id, `Started by schedule ${schedule.id} (${schedule.cron})`);
+  audit.record(newLoop.started_by, 'loop.start', { source: 'schedule', loop: newLoop, detail: { schedule: schedule.id, cron: schedule.cron } });
+  await app.client.chat.postMessage({
+    channel: channelId,
+    thread_ts: newLoop.thread_ts || undefined,
+    text: `⏰ Started by schedule \`${schedule.id}\` (\`${schedule.cron}\`)`,
+  });
+}
+
+// Start a loop on the issue a GitHub label or /loop comment pointed at
+async function runWebhookTrigger(trigger: WebhookTrigger) {
+  const repo = getRepo(trigger.owner, trigger.name);
+  if (!repo) return;
+  
+  const newLoop = await launchLoop(app.client, {
+    repo_owner: trigger.owner,
+    repo_name: trigger.name,
+    channel_id: repo.channel || '',
+    started_by: getConfig().webhook.run_as || `github:${trigger.sender}`,
+    mode: trigger.mode || 'auto',
+    iteration_max: trigger.iterations || 10,
+    issue_numbers: [trigger.issueNumber],
+  });
+  
+  const how = trigger.reason === 'label' ? `labelling #${trigger.issueNumber} \`${getConfig().webhook.trigger_label}\`` : `commenting /loop on #${trigger.issueNumber}`;
+  db.logLoop(newLoop.id, `Started from GitHub by ${trigger.sender} ${how}`);
+  audit.record(`github:${trigger.sender}`, 'loop.start', {
+    source: 'webhook',
+    loop: newLoop,
+    issue: trigger.issueNumber,
+    detail: { reason: trigger.reason, run_as: newLoop.started_by },
+  });
+  
+  if (repo.channel) {
+    await app.client.chat.postMessage({
+      channel: repo.channel,
+      thread_ts: newLoop.thread_ts || undefined,
+      text: `🔗 Started from GitHub by *${trigger.sender}* ${how}`,
+    });
+  }
+  
+  const state = newLoop.status === 'queued' ? 'queued' : 'started';
+  await github.commentOnIssue(
+    trigger.owner,
+    trigger.name,
+    trigger.issueNumber,
+    `🤖 Loop \`${newLoop.id.slice(0, 8)}\` ${state} on this issue (${newLoop.mode} mode, up to ${newLoop.iteration_max} iterations).`,
+  );
+}
+
+/**
+ * Validates and swaps in the current config.yaml + environment, then re-syncs
+ * what was derived from the old config. A config that fails validation is not applied.
+ */
+function applyConfigReload(): views.ConfigReloadResult {
+  let reloaded: ReturnType<typeof reloadConfig>;
+  try {
+    reloaded = reloadConfig();
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
+  }
+  
+  scheduler.syncConfigSchedules();
+  auth.refreshUserGroups(app.client);
+  // Concurrency limits may have gone up
+  queue.drainQueue();
+  
+  return { ok: true, ...describeConfigChanges(reloaded.previous, reloaded.current) };
+}
+
+// Saving config.yaml reloads it; admins hear about configs that don't validate
+async function reloadChangedConfigFile() {
+  const result = applyConfigReload();
+  
+  if (result.ok) {
+    if (result.changes.length === 0 && result.needsRestart.length === 0) return;
+    audit.record('system', 'config.reload', { source: 'file', detail: { changes: result.changes, needs_restart: result.needsRestart } });
+  } else {
+    console.error(`Config reload failed:\n${result.error}`);
+  }
+  
+  for (const admin of getConfig().auth.admins) {
+    await app.client.chat.postMessage({ channel: admin, ...views.configReloadMessage(result, true) })
+      .catch(err => console.error(`Failed to notify ${admin} about the config reload:`, err));
+  }
+}
+
+// Park loops orphaned by a restart, then resume them or ask in their thread
+async function recoverInterruptedLoops() {
+  const orphaned = loop.reconcileOrphanedLoops();
+  
+  for (const { loop: l, processState } of orphaned) {
+    const threadTs = l.thread_ts || undefined;
+    
+    if (getConfig().recovery.auto_resume) {
+      if (l.channel_id) {
+        await app.client.chat.postMessage({
+          channel: l.channel_id,
+          thread_ts: threadTs,
+          text: `♻️ Bot restarted - resuming from iteration ${Math.max(1, l.iteration_current)}`,
+        });
+      }
+      loop.resumeLoop(l.id, callbacksForLoop(l, app.client)).catch(err => {
+        console.error('Error resuming loop:', err);
+      });
+    } else if (l.channel_id) {
+      await app.client.chat.postMessage({
+        channel: l.channel_id,
+        thread_ts: threadTs,
+        ...views.loopInterruptedMessage(l, processState),
+      });
+    }
+  }
+  
+  for (const channelId of new Set(orphaned.map(o => o.loop.channel_id))) {
+    statusBoard.refreshStatusBoard(app.client, channelId);
+  }
+  
+  return orphaned.length;
+}
+
 function extractSummary(output: string): string {
-  // Try to find meaningful info from droid output
-  const lines = output.split('\n');
+  // Try to find meaningful info from droid output (event lines are for the bot, not people)
+  const lines = output.split('\n').filter(l => !isEventLine(l));
   
   // Look for file changes
   const fileChanges = lines.filter(l => l.match(/^[AMD]\s+\S+/) || l.includes('modified:') || l.includes('created:'));
@@ -461,10 +1585,58 @@ function extractSummary(output: string): string {
 // START
 // ============================================================
 
+function pruneExpiredTranscripts() {
+  try {
+    pruneTranscripts();
+  } catch (err) {
+    console.error('Failed to prune transcripts:', err);
+  }
+}
+
+queue.setLoopStarter((l) => {
+  if (l.channel_id) {
+    app.client.chat.postMessage({
+      channel: l.channel_id,
+      thread_ts: l.thread_ts || undefined,
+      text: `🚀 A slot freed up - starting loop on \`${l.repo_owner}/${l.repo_name}\``,
+    }).catch(err => console.error('Failed to post dequeue message:', err));
+  }
+  startLoopWithCallbacks(l.id, app.client, l.channel_id, l.thread_ts || undefined);
+});
+
 (async () => {
   await app.start();
   console.log('⚡️ Loop Slack bot is running!');
-  console.log(`   Repos configured: ${config.repos.map(r => `${r.owner}/${r.name}`).join(', ')}`);
-  console.log(`   Admins: ${config.auth.admins.length}`);
-  console.log(`   Operators: ${config.auth.operators.length}`);
+  
+  // Group-based repo access needs the member lists; keep them reasonably fresh
+  await auth.refreshUserGroups(app.client);
+  setInterval(() => auth.refreshUserGroups(app.client), USER_GROUP_REFRESH_MS);
+  console.log(`   Repos configured: ${startupConfig.repos.map(r => `${r.owner}/${r.name}`).join(', ')}`);
+  console.log(`   Admins: ${startupConfig.auth.admins.length}`);
+  console.log(`   Operators: ${startupConfig.auth.operators.length}`);
+  
+  const recovered = await recoverInterruptedLoops();
+  if (recovered > 0) {
+    console.log(`   Recovered ${recovered} interrupted loop${recovered === 1 ? '' : 's'}`);
+  }
+  
+  // Pick up anything left in the queue from before the restart
+  queue.drainQueue();
+  await statusBoard.refreshAllStatusBoards(app.client);
+  
+  scheduler.syncConfigSchedules();
+  scheduler.startScheduler(runSchedule);
+  pruneExpiredTranscripts();
+  setInterval(pruneExpiredTranscripts, TRANSCRIPT_PRUNE_MS);
+  watchConfig(reloadChangedConfigFile);
+  
+  if (startupConfig.dashboard.enabled) {
+    startDashboardServer();
+    console.log(`   Dashboard listening on :${startupConfig.dashboard.port}`);
+  }
+  
+  if (startupConfig.webhook.enabled) {
+    startWebhookServer(runWebhookTrigger);
+    console.log(`   GitHub webhook listening on :${startupConfig.webhook.port}${startupConfig.webhook.path}`);
+  }
 })();
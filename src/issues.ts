@@ -0,0 +1,93 @@
+import * as db from './db.js';
+import * as github from './github.js';
+import type { Issue } from './github.js';
+
+export type IssueOrder = 'oldest' | 'priority' | 'manual';
+
+export interface IssueSelection {
+  // Only issues carrying at least one of these labels (empty = any)
+  labels: string[];
+  // Only these issues, in the order they were picked (empty = any)
+  issues: number[];
+  order: IssueOrder;
+}
+
+export const ISSUE_ORDER_LABELS: Record<IssueOrder, string> = {
+  oldest: 'Oldest first',
+  priority: 'By priority label',
+  manual: 'In the order selected',
+};
+
+export function selectionForLoop(loop: db.Loop): IssueSelection {
+  return {
+    labels: loop.issue_labels ? JSON.parse(loop.issue_labels) : [],
+    issues: loop.issue_numbers ? JSON.parse(loop.issue_numbers) : [],
+    order: (loop.issue_order as IssueOrder) || 'oldest',
+  };
+}
+
+export function hasSelection(selection: IssueSelection): boolean {
+  return selection.labels.length > 0 || selection.issues.length > 0;
+}
+
+export function filterIssues(issues: Issue[], selection: IssueSelection): Issue[] {
+  return issues.filter(i => {
+    if (selection.issues.length > 0 && !selection.issues.includes(i.number)) return false;
+    if (selection.labels.length > 0 && !i.labels.some(l => selection.labels.includes(l))) return false;
+    return true;
+  });
+}
+
+// Lower is more urgent: P0/P1..., "priority: high", or bare critical/high/medium/low labels
+export function priorityRank(labels: string[]): number {
+  const named: Record<string, number> = { critical: 0, urgent: 0, high: 1, medium: 2, low: 3 };
+  let best = Number.MAX_SAFE_INTEGER;
+  
+  for (const label of labels) {
+    const normalized = label.toLowerCase().replace(/^priority\s*[:/\-]?\s*/, '');
+    const numbered = normalized.match(/^p(\d)$/);
+    const rank = numbered ? parseInt(numbered[1], 10) : named[normalized];
+    if (rank !== undefined && rank < best) best = rank;
+  }
+  
+  return best;
+}
+
+export function orderIssues(issues: Issue[], selection: IssueSelection): Issue[] {
+  const byAge = (a: Issue, b: Issue) => a.created_at.localeCompare(b.created_at);
+  
+  switch (selection.order) {
+    case 'manual':
+      if (selection.issues.length > 0) {
+        return [...issues].sort((a, b) => selection.issues.indexOf(a.number) - selection.issues.indexOf(b.number));
+      }
+      return [...issues].sort(byAge);
+    case 'priority':
+      return [...issues].sort((a, b) => priorityRank(a.labels) - priorityRank(b.labels) || byAge(a, b));
+    case 'oldest':
+    default:
+      return [...issues].sort(byAge);
+  }
+}
+
+/**
+ * Open issues the loop may still work on, in the order it should take them.
+ * Issues the loop already finished, skipped or failed are left out.
+ */
+export async function remainingIssues(loop: db.Loop): Promise<Issue[]> {
+  const selection = selectionForLoop(loop);
+  const handled = new Set(
+    db.getTasksForLoop(loop.id)
+      .filter(t => t.status === 'complete' || t.status === 'skipped' || t.status === 'error')
+      .map(t => t.issue_number),
+  );
+  
+  // Picked issues are fetched by number - they may be older than any page of open issues
+  const open = selection.issues.length > 0
+    ? (await Promise.all(selection.issues.map(n => github.getIssue(loop.repo_owner, loop.repo_name, n))))
+        .filter((i): i is Issue => i !== null && i.state === 'open')
+    : selection.labels.length > 0
+      ? await github.getAllOpenIssues(loop.repo_owner, loop.repo_name)
+      : await github.getOpenIssues(loop.repo_owner, loop.repo_name);
+  return orderIssues(filterIssues(open, selection), selection).filter(i => !handled.has(i.number));
+}
@@ -0,0 +1,109 @@
+import { spawn } from 'child_process';
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { tmpdir } from 'os';
+import * as db from './db.js';
+
+// Stored keys are encrypted with a key derived from this environment variable
+export const MASTER_KEY_ENV = 'LOOP_SLACK_MASTER_KEY';
+
+const VALIDATION_TIMEOUT_MS = 60_000;
+
+function masterKey(): Buffer | null {
+  const secret = process.env[MASTER_KEY_ENV];
+  return secret ? createHash('sha256').update(secret).digest() : null;
+}
+
+export function canStoreKeys(): boolean {
+  return masterKey() !== null;
+}
+
+// AES-256-GCM, stored as v1:<iv>:<auth tag>:<ciphertext> (base64)
+function encrypt(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return ['v1', iv, cipher.getAuthTag(), ciphertext].map(p => typeof p === 'string' ? p : p.toString('base64')).join(':');
+}
+
+function decrypt(stored: string, key: Buffer): string {
+  const [version, iv, tag, ciphertext] = stored.split(':');
+  if (version !== 'v1') throw new Error(`Unknown key format ${version}`);
+  
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+// Last few characters, so users can tell which key is stored without seeing it
+function keyHint(apiKey: string): string {
+  return `…${apiKey.slice(-4)}`;
+}
+
+/**
+ * The user's stored key, or undefined if there isn't one or it can't be
+ * decrypted (no master key, or the master key changed).
+ */
+export function getStoredKey(userId: string): string | undefined {
+  const row = db.getUserKey(userId);
+  if (!row) return undefined;
+  
+  const key = masterKey();
+  if (!key) {
+    console.warn(`Stored Factory key for ${userId} ignored: ${MASTER_KEY_ENV} is not set`);
+    return undefined;
+  }
+  
+  try {
+    return decrypt(row.encrypted_key, key);
+  } catch (err) {
+    console.error(`Failed to decrypt stored Factory key for ${userId}:`, err);
+    return undefined;
+  }
+}
+
+export function saveKey(userId: string, apiKey: string): void {
+  const key = masterKey();
+  if (!key) throw new Error(`${MASTER_KEY_ENV} is not set`);
+  db.saveUserKey(userId, encrypt(apiKey, key), keyHint(apiKey));
+}
+
+export function removeKey(userId: string): boolean {
+  return db.deleteUserKey(userId);
+}
+
+/**
+ * Checks a key by having droid answer a one-line prompt with it. Resolves to
+ * an error message, or null if the key works.
+ */
+export function validateKey(apiKey: string): Promise<string | null> {
+  return new Promise(resolve => {
+    const output: string[] = [];
+    const proc = spawn('droid', ['exec', 'Reply with the single word OK.'], {
+      cwd: tmpdir(),
+      env: {
+        ...process.env,
+        FACTORY_API_KEY: apiKey,
+      },
+    });
+    
+    const timer = setTimeout(() => {
+      proc.kill('SIGTERM');
+      resolve('Timed out waiting for droid to respond');
+    }, VALIDATION_TIMEOUT_MS);
+    
+    proc.stdout?.on('data', data => output.push(data.toString()));
+    proc.stderr?.on('data', data => output.push(data.toString()));
+    
+    proc.on('close', code => {
+      clearTimeout(timer);
+      // droid's error output goes back to Slack - never echo the key itself
+      const message = output.join('').split(apiKey).join(keyHint(apiKey)).trim().slice(-300);
+      resolve(code === 0 ? null : message || `droid exited with code ${code}`);
+    });
+    
+    proc.on('error', err => {
+      clearTimeout(timer);
+      resolve(`Couldn't run droid: ${err.message}`);
+    });
+  });
+}
@@ -0,0 +1,60 @@
+import * as db from './db.js';
+import type { LogEntry, LogLevel } from './db.js';
+import { transcriptHeader, transcriptText } from './transcripts.js';
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
+
+const PAGE_SIZE = 15;
+
+// What a /loop logs message is showing - round-tripped through its buttons
+export interface LogView {
+  loopId: string;
+  // Minimum level shown
+  level: LogLevel;
+  // Only the most recent N entries, null for all
+  tail: number | null;
+  // 0 is the newest page
+  page: number;
+}
+
+export interface LogPage {
+  entries: LogEntry[];
+  page: number;
+  pages: number;
+  total: number;
+}
+
+export function levelsFrom(level: LogLevel): LogLevel[] {
+  return LOG_LEVELS.slice(LOG_LEVELS.indexOf(level));
+}
+
+export function getLogPage(view: LogView): LogPage {
+  const levels = levelsFrom(view.level);
+  const count = db.countLoopLogs(view.loopId, levels);
+  const total = view.tail ? Math.min(count, view.tail) : count;
+  const pages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const page = Math.min(Math.max(view.page, 0), pages - 1);
+  
+  const offset = page * PAGE_SIZE;
+  const entries = total > 0 ? db.getLoopLogPage(view.loopId, levels, Math.min(PAGE_SIZE, total - offset), offset) : [];
+  
+  // Oldest first within the page, so it reads top to bottom
+  return { entries: entries.reverse(), page, pages, total };
+}
+
+// Every entry, oldest first, followed by each iteration's droid transcript, as a plain-text file
+export function fullLogText(loop: db.Loop): string {
+  const entries = db.getLoopLogPage(loop.id, LOG_LEVELS, -1).reverse();
+  const header = `Loop ${loop.id} on ${loop.repo_owner}/${loop.repo_name} - ${loop.status}, started by ${loop.started_by}${loop.started_at ? ` at ${loop.started_at}` : ''}`;
+  
+  const lines = entries.map(e => {
+    const data = e.data ? `\n    ${JSON.stringify(e.data)}` : '';
+    return `${e.timestamp} [${e.level.toUpperCase()}] ${e.message}${data}`;
+  });
+  
+  const transcripts = db.getTranscriptsForLoop(loop.id).map(t =>
+    `\n==== ${transcriptHeader(t)} ====\n${transcriptText(t)}`
+  );
+  
+  return [header, '', ...lines, ...transcripts].join('\n') + '\n';
+}
@@ -1,24 +1,136 @@
 import { spawn, type ChildProcess } from 'child_process';
-import { existsSync, mkdirSync, writeFileSync, readFileSync } from 'fs';
-import { join } from 'path';
+import { readFileSync } from 'fs';
 import type { WebClient } from '@slack/web-api';
 import * as db from './db.js';
-import { getConfig, getFactoryKey, getRepo } from './config.js';
+import { getConfig, getFactoryKey, getRepo, type Repo } from './config.js';
 import * as github from './github.js';
+import * as queue from './queue.js';
+import { ensureWorkspace, removeWorkspace } from './workspace.js';
+import { createProgressTracker, type IterationProgress } from './progress.js';
+import { interpretOutput, parseEvents } from './events.js';
+import { buildPrompt, removePrompt } from './prompt.js';
+import { hasSelection, remainingIssues, selectionForLoop } from './issues.js';
+import { openTranscript } from './transcripts.js';
+import { checkBudgets, recordIteration, type BudgetExceeded } from './usage.js';
 
-const WORKSPACE_DIR = './workspaces';
 const activeProcesses = new Map<string, ChildProcess>();
 
-interface LoopCallbacks {
+// Loops with a startLoop call in flight - it owns their workspace until its finally block
+const startedLoops = new Set<string>();
+
+// How long droid gets to exit after SIGTERM before its process group is killed
+const KILL_GRACE_MS = 10_000;
+
+export type TimeoutReason = 'iteration_timeout' | 'silence_timeout';
+
+// Thrown by runIteration when the watchdog killed droid
+export class IterationTimeoutError extends Error {
+  constructor(readonly reason: TimeoutReason, readonly limitMinutes: number) {
+    super(reason === 'iteration_timeout'
+      ? `Iteration ran longer than ${limitMinutes} minutes`
+      : `No output from droid for ${limitMinutes} minutes`);
+    this.name = 'IterationTimeoutError';
+  }
+}
+
+export interface LoopCallbacks {
   onStart?: (loop: db.Loop) => void;
   onIteration?: (loop: db.Loop, iteration: number, output: string) => void;
+  onProgress?: (loop: db.Loop, progress: IterationProgress) => void;
   onTaskComplete?: (loop: db.Loop, issueNumber: number, prNumber?: number) => void;
   onWaitingApproval?: (loop: db.Loop, issueNumber: number, prNumber: number) => void;
+  onBlocked?: (loop: db.Loop, reason: string, issueNumber: number | null) => void;
   onComplete?: (loop: db.Loop) => void;
   onError?: (loop: db.Loop, error: string) => void;
+  onBudgetExceeded?: (loop: db.Loop, exceeded: BudgetExceeded) => void;
+  onTimeout?: (loop: db.Loop, error: IterationTimeoutError) => void;
+}
+
+export interface StartOptions {
+  // Re-run iteration_current instead of moving on to the next one (used after an interruption)
+  retryCurrent?: boolean;
+}
+
+export interface ApproveOptions {
+  // Merge even though required checks are failing or still running
+  override?: boolean;
+}
+
+export interface OrphanedLoop {
+  loop: db.Loop;
+  processState: 'none' | 'exited' | 'killed';
 }
 
-export async function startLoop(loopId: string, callbacks: LoopCallbacks = {}): Promise<void> {
+/**
+ * Callbacks post to Slack and are mostly async, but loop code never waits on
+ * them. Wrapping them logs a failure to the loop instead of leaving an
+ * unhandled rejection.
+ */
+function guardCallbacks(loopId: string, callbacks: LoopCallbacks): LoopCallbacks {
+  const logFailure = (name: string, err: unknown) => {
+    console.error(`Loop ${loopId} ${name} callback failed:`, err);
+    try {
+      db.logLoop(loopId, `Couldn't post ${name} update to Slack: ${err instanceof Error ? err.message : String(err)}`, 'warn');
+    } catch {
+      // Already on the console
+    }
+  };
+  
+  const guarded: Record<string, unknown> = {};
+  for (const [name, callback] of Object.entries(callbacks)) {
+    if (typeof callback !== 'function') continue;
+    guarded[name] = (...args: unknown[]) => {
+      try {
+        Promise.resolve(callback(...args)).catch(err => logFailure(name, err));
+      } catch (err) {
+        logFailure(name, err);
+      }
+    };
+  }
+  return guarded as LoopCallbacks;
+}
+
+export async function startLoop(loopId: string, loopCallbacks: LoopCallbacks = {}, options: StartOptions = {}): Promise<void> {
+  const callbacks = guardCallbacks(loopId, loopCallbacks);
+  startedLoops.add(loopId);
+  try {
+    await runLoop(loopId, callbacks, options);
+  } catch (error) {
+    // Setup failures (missing key, clone errors) would otherwise leave the loop holding a slot
+    const current = db.getLoop(loopId);
+    if (current && (current.status === 'pending' || current.status === 'running')) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      db.failLoop(loopId, errorMsg);
+      db.logLoop(loopId, `Error: ${errorMsg}`, 'error');
+      callbacks.onError?.(db.getLoop(loopId)!, errorMsg);
+    }
+    throw error;
+  } finally {
+    startedLoops.delete(loopId);
+    const current = db.getLoop(loopId);
+    if (current && isFinished(current)) {
+      await cleanupWorkspace(current);
+    }
+    
+    // Whatever happened, a slot may have freed up
+    queue.drainQueue();
+  }
+}
+
+function isFinished(loop: db.Loop): boolean {
+  return loop.status === 'complete' || loop.status === 'error' || loop.status === 'stopped';
+}
+
+async function cleanupWorkspace(loop: db.Loop): Promise<void> {
+  removePrompt(loop.id);
+  try {
+    await removeWorkspace(loop.id, loop.repo_owner, loop.repo_name);
+  } catch (err) {
+    db.logLoop(loop.id, `Failed to remove workspace: ${err instanceof Error ? err.message : String(err)}`, 'warn');
+  }
+}
+
+async function runLoop(loopId: string, callbacks: LoopCallbacks, options: StartOptions): Promise<void> {
   const loop = db.getLoop(loopId);
   if (!loop) throw new Error(`Loop not found: ${loopId}`);
   
@@ -29,17 +141,29 @@ export async function startLoop(loopId: string, callbacks: LoopCallbacks = {}):
   const factoryKey = getFactoryKey(loop.started_by);
   if (!factoryKey) throw new Error(`No Factory API key for user ${loop.started_by}`);
   
-  // Set up workspace
-  const workspaceDir = join(WORKSPACE_DIR, `${loop.repo_owner}-${loop.repo_name}`);
-  await ensureWorkspace(workspaceDir, loop.repo_owner, loop.repo_name, repoConfig.default_branch);
+  // Set up this loop's own worktree
+  const workspaceDir = await ensureWorkspace(loopId, loop.repo_owner, loop.repo_name, repoConfig.default_branch);
+  
+  // Stopped while the worktree was being set up - startLoop's finally removes it
+  if (db.getLoop(loopId)!.status === 'stopped') {
+    db.logLoop(loopId, 'Loop stopped by user before it started');
+    return;
+  }
   
   // Mark as running
-  db.updateLoop(loopId, { status: 'running', started_at: new Date().toISOString() });
-  db.logLoop(loopId, 'Loop started');
+  db.updateLoop(loopId, { status: 'running', started_at: loop.started_at || new Date().toISOString() });
+  db.logLoop(loopId, loop.iteration_current > 0 ? `Loop resumed at iteration ${loop.iteration_current}` : 'Loop started');
   callbacks.onStart?.(db.getLoop(loopId)!);
   
-  // Run iterations
-  for (let i = 1; i <= loop.iteration_max; i++) {
+  // Run iterations, picking up where a previous run left off. Revising the PR
+  // under review reruns the iteration that opened it rather than spending a
+  // new one, so Request Changes still works on the last iteration.
+  const revisionPending = !!loop.current_pr && db.getPendingInstructions(loopId, 'revision').length > 0;
+  const firstIteration = options.retryCurrent || revisionPending
+    ? Math.max(1, loop.iteration_current)
+    : loop.iteration_current + 1;
+  
+  for (let i = firstIteration; i <= loop.iteration_max; i++) {
     const currentLoop = db.getLoop(loopId)!;
     
     // Check if stopped
@@ -54,42 +178,161 @@ export async function startLoop(loopId: string, callbacks: LoopCallbacks = {}):
       break;
     }
     
+    // Checked between iterations - a run already under way is allowed to finish
+    const exceeded = checkBudgets(currentLoop);
+    if (exceeded) {
+      finishOpenTasks(loopId, 'error', 'Loop stopped: budget exceeded');
+      db.stopLoop(loopId);
+      db.logLoop(loopId, `Stopped: ${exceeded.scope} budget of ${exceeded.limit} ${exceeded.metric} reached`, 'warn');
+      callbacks.onBudgetExceeded?.(db.getLoop(loopId)!, exceeded);
+      return;
+    }
+    
+    // Reviewer feedback on the PR awaiting approval takes priority over new issues
+    const revisionFeedback = currentLoop.current_pr ? db.getPendingInstructions(loopId, 'revision') : [];
+    const revision = revisionFeedback.length > 0
+      ? { prNumber: currentLoop.current_pr!, feedback: revisionFeedback }
+      : undefined;
+    
+    // A loop limited to certain issues is done once none of them are left
+    const selection = selectionForLoop(currentLoop);
+    const selectedIssues = hasSelection(selection)
+      ? await remainingIssues(currentLoop)
+      : undefined;
+    if (!revision && selectedIssues && selectedIssues.length === 0) {
+      db.completeLoop(loopId);
+      db.logLoop(loopId, 'No selected issues remain');
+      callbacks.onComplete?.(db.getLoop(loopId)!);
+      return;
+    }
+    
     db.updateLoop(loopId, { iteration_current: i });
-    db.logLoop(loopId, `Starting iteration ${i}/${loop.iteration_max}`);
+    db.logLoop(loopId, revision
+      ? `Revising PR #${revision.prNumber} (iteration ${i}/${loop.iteration_max})`
+      : `Starting iteration ${i}/${loop.iteration_max}`);
+    const iterationStartedAt = new Date().toISOString();
+    
+    // Throttled snapshots of the output so long iterations aren't silent
+    const tracker = callbacks.onProgress
+      ? createProgressTracker(i, config.notifications.update_interval_ms, config.notifications.progress_lines, (progress) => {
+          callbacks.onProgress?.(db.getLoop(loopId)!, progress);
+        })
+      : null;
     
     try {
-      const result = await runIteration(loopId, workspaceDir, factoryKey, repoConfig.prompt_path);
+      const guidance = db.getPendingInstructions(loopId, 'guidance');
+      const promptFile = buildPrompt(db.getLoop(loopId)!, workspaceDir, repoConfig.prompt_path, { selectedIssues, order: selection.order, revision, guidance });
+      if (guidance.length > 0) {
+        db.consumeInstructions(guidance.map(g => g.id));
+        db.logLoop(loopId, `Passing ${guidance.length} thread instruction${guidance.length === 1 ? '' : 's'} to the agent`);
+      }
+      const result = await runIteration(loopId, i, workspaceDir, factoryKey, promptFile, repoConfig.timeouts, tracker?.push)
+        .finally(() => tracker?.finish());
+      
+      // Stopped while droid was finishing up - don't act on its output
+      if (db.getLoop(loopId)!.status === 'stopped') {
+        db.logLoop(loopId, 'Loop stopped by user');
+        return;
+      }
       callbacks.onIteration?.(db.getLoop(loopId)!, i, result.output);
       
-      // Parse result
-      if (result.output.includes('<done>COMPLETE</done>') || result.output.includes('<done>NO_TASKS</done>')) {
-        db.completeLoop(loopId);
-        db.logLoop(loopId, 'All tasks complete');
-        callbacks.onComplete?.(db.getLoop(loopId)!);
+      if (revision) {
+        // Back to review once the PR branch has new commits; otherwise the reviewer decides what's next
+        if (await revisionPushed(loop, revision.prNumber, revisionFeedback)) {
+          db.consumeInstructions(revisionFeedback.map(f => f.id));
+          db.updateLoop(loopId, { status: 'waiting_approval' });
+          db.logLoop(loopId, `Revision pushed to PR #${revision.prNumber} - waiting for approval`);
+          callbacks.onWaitingApproval?.(db.getLoop(loopId)!, currentLoop.current_issue || 0, revision.prNumber);
+          return;
+        }
+        parkRevision(loopId, `No new commits were pushed to PR #${revision.prNumber} for the requested changes`, callbacks);
         return;
       }
       
-      // Check for PR creation
-      const prMatch = result.output.match(/https:\/\/github\.com\/[^\/]+\/[^\/]+\/pull\/(\d+)/);
-      if (prMatch) {
-        const prNumber = parseInt(prMatch[1], 10);
-        const issueMatch = result.output.match(/#(\d+)/);
-        const issueNumber = issueMatch ? parseInt(issueMatch[1], 10) : null;
-        
-        db.updateLoop(loopId, { current_pr: prNumber, current_issue: issueNumber });
+      const outcome = interpretOutput(result.output);
+      if (outcome.source === 'legacy') {
+        db.logLoop(loopId, 'No structured events in output - using legacy heuristics', 'warn');
+      }
+      
+      for (const issueNumber of outcome.startedIssues) {
+        trackTask(loopId, issueNumber, iterationStartedAt);
+      }
+      
+      for (const { issue, reason } of outcome.skipped) {
+        trackTask(loopId, issue, iterationStartedAt);
+        finishOpenTasks(loopId, 'skipped', reason || undefined, issue);
+        db.logLoop(loopId, `Skipped issue #${issue}${reason ? `: ${reason}` : ''}`);
+      }
+      
+      for (const { issue, reason } of outcome.blocked) {
+        if (issue) {
+          trackTask(loopId, issue, iterationStartedAt);
+          finishOpenTasks(loopId, 'error', `Blocked: ${reason}`, issue);
+        }
+        db.logLoop(loopId, `Blocked${issue ? ` on #${issue}` : ''}: ${reason}`, 'warn');
+        callbacks.onBlocked?.(db.getLoop(loopId)!, reason, issue);
+      }
+      
+      const awaitingApproval: { pr: number; issue: number | null }[] = [];
+      for (const { pr: prNumber, issue: issueNumber } of outcome.prs) {
+        if (issueNumber) {
+          const task = trackTask(loopId, issueNumber, iterationStartedAt);
+          // In approval mode the task stays in progress until the PR is approved or skipped
+          db.updateTask(task.id, loop.mode === 'approval'
+            ? { pr_number: prNumber }
+            : { pr_number: prNumber, status: 'complete', completed_at: new Date().toISOString() });
+        }
         
         if (loop.mode === 'approval') {
-          db.updateLoop(loopId, { status: 'waiting_approval' });
-          db.logLoop(loopId, `Waiting for approval on PR #${prNumber}`);
-          callbacks.onWaitingApproval?.(db.getLoop(loopId)!, issueNumber || 0, prNumber);
-          return;
+          awaitingApproval.push({ pr: prNumber, issue: issueNumber });
+          continue;
         }
         
+        db.updateLoop(loopId, { current_pr: prNumber, current_issue: issueNumber });
         callbacks.onTaskComplete?.(db.getLoop(loopId)!, issueNumber || 0, prNumber);
       }
       
+      if (awaitingApproval.length > 0) {
+        // One PR is reviewed at a time - the others wait their turn as in-progress tasks (see showNextQueuedPR)
+        const [first, ...queued] = awaitingApproval;
+        for (const { pr } of queued.filter(p => !p.issue)) {
+          db.logLoop(loopId, `PR #${pr} names no issue, so it can't be queued for approval - review it on GitHub`, 'warn');
+        }
+        if (queued.length > 0) {
+          db.logLoop(loopId, `${queued.length} more PR${queued.length === 1 ? '' : 's'} from this iteration queued for approval`);
+        }
+        
+        db.updateLoop(loopId, { status: 'waiting_approval', current_pr: first.pr, current_issue: first.issue });
+        db.logLoop(loopId, `Waiting for approval on PR #${first.pr}`);
+        callbacks.onWaitingApproval?.(db.getLoop(loopId)!, first.issue || 0, first.pr);
+        return;
+      }
+      
+      if (outcome.done) {
+        db.completeLoop(loopId);
+        db.logLoop(loopId, 'All tasks complete');
+        callbacks.onComplete?.(db.getLoop(loopId)!);
+        return;
+      }
+    
     } catch (error) {
+      // Stopping kills droid mid-run; that isn't a failure and mustn't overwrite the status
+      if (db.getLoop(loopId)!.status === 'stopped') {
+        finishOpenTasks(loopId, 'error', 'Loop stopped');
+        db.logLoop(loopId, 'Loop stopped by user');
+        return;
+      }
+      
       const errorMsg = error instanceof Error ? error.message : String(error);
+      finishOpenTasks(loopId, 'error', errorMsg);
+      
+      if (error instanceof IterationTimeoutError) {
+        db.failLoop(loopId, errorMsg, error.reason);
+        db.logLoop(loopId, `Timed out: ${errorMsg}`, 'error');
+        callbacks.onTimeout?.(db.getLoop(loopId)!, error);
+        return;
+      }
+      
       db.failLoop(loopId, errorMsg);
       db.logLoop(loopId, `Error: ${errorMsg}`, 'error');
       callbacks.onError?.(db.getLoop(loopId)!, errorMsg);
@@ -99,6 +342,11 @@ export async function startLoop(loopId: string, callbacks: LoopCallbacks = {}):
   
   // Reached max iterations
   const finalLoop = db.getLoop(loopId)!;
+  if (finalLoop.status === 'running' && finalLoop.current_pr && db.getPendingInstructions(loopId, 'revision').length > 0) {
+    // Never complete with a reviewer's requested changes unmade
+    parkRevision(loopId, `Reached the iteration limit (${loop.iteration_max}) before revising PR #${finalLoop.current_pr}`, callbacks);
+    return;
+  }
   if (finalLoop.status === 'running') {
     db.completeLoop(loopId);
     db.logLoop(loopId, `Reached iteration limit (${loop.iteration_max})`);
@@ -106,26 +354,74 @@ export async function startLoop(loopId: string, callbacks: LoopCallbacks = {}):
   }
 }
 
-async function ensureWorkspace(dir: string, owner: string, repo: string, branch: string): Promise<void> {
-  if (!existsSync(WORKSPACE_DIR)) {
-    mkdirSync(WORKSPACE_DIR, { recursive: true });
+/**
+ * Puts a loop whose revision didn't land back in front of the reviewer, with
+ * the reason. The feedback stays pending so Request Changes can try again.
+ */
+function parkRevision(loopId: string, reason: string, callbacks: LoopCallbacks): void {
+  db.updateLoop(loopId, { status: 'waiting_approval' });
+  db.logLoop(loopId, `${reason} - waiting for the reviewer`, 'warn');
+  
+  const loop = db.getLoop(loopId)!;
+  callbacks.onBlocked?.(loop, reason, loop.current_issue);
+  callbacks.onWaitingApproval?.(loop, loop.current_issue || 0, loop.current_pr!);
+}
+
+// Feedback on a PR that was approved or skipped no longer applies
+function dropPendingRevisions(loopId: string): void {
+  const pending = db.getPendingInstructions(loopId, 'revision');
+  if (pending.length > 0) {
+    db.consumeInstructions(pending.map(f => f.id));
   }
+}
+
+async function revisionPushed(loop: db.Loop, prNumber: number, feedback: db.Instruction[]): Promise<boolean> {
+  const pr = await github.getPR(loop.repo_owner, loop.repo_name, prNumber);
+  if (!pr) return false;
+  
+  // The head the reviewer saw when they asked for changes
+  const reviewedSha = feedback[0].pr_head_sha;
+  return !reviewedSha || pr.head_sha !== reviewedSha;
+}
+
+// The open task for an issue, or a new one if the loop just picked it up
+function trackTask(loopId: string, issueNumber: number, startedAt: string): db.Task {
+  const existing = db.getOpenTaskForIssue(loopId, issueNumber);
+  if (existing) return existing;
   
-  if (!existsSync(dir)) {
-    // Clone repo
-    await execCommand(`git clone https://github.com/${owner}/${repo}.git ${dir}`);
-  } else {
-    // Pull latest
-    await execCommand(`git fetch origin && git reset --hard origin/${branch}`, { cwd: dir });
+  const task = db.createTask(loopId, issueNumber);
+  db.updateTask(task.id, { status: 'in_progress', started_at: startedAt });
+  db.logLoop(loopId, `Picked up issue #${issueNumber}`);
+  return db.getTask(task.id)!;
+}
+
+function finishOpenTasks(loopId: string, status: db.TaskStatus, error?: string, issueNumber?: number | null): void {
+  const completedAt = new Date().toISOString();
+  for (const task of db.getTasksForLoop(loopId)) {
+    if (task.status !== 'pending' && task.status !== 'in_progress') continue;
+    if (issueNumber && task.issue_number !== issueNumber) continue;
+    db.updateTask(task.id, { status, completed_at: completedAt, error: error || null });
   }
 }
 
-async function runIteration(loopId: string, workspaceDir: string, factoryKey: string, promptPath: string): Promise<{ output: string }> {
+async function runIteration(
+  loopId: string,
+  iteration: number,
+  workspaceDir: string,
+  factoryKey: string,
+  promptPath: string,
+  timeouts: Repo['timeouts'],
+  onOutput?: (chunk: string) => void,
+): Promise<{ output: string }> {
   return new Promise((resolve, reject) => {
     const output: string[] = [];
+    const startedAt = new Date();
+    const transcript = openTranscript(loopId, iteration);
     
+    // Detached so droid leads its own process group and nothing it starts outlives a kill
     const proc = spawn('droid', ['exec', '--auto', 'high', '-f', promptPath], {
       cwd: workspaceDir,
+      detached: true,
       env: {
         ...process.env,
         FACTORY_API_KEY: factoryKey,
@@ -133,20 +429,62 @@ async function runIteration(loopId: string, workspaceDir: string, factoryKey: st
     });
     
     activeProcesses.set(loopId, proc);
+    db.updateLoop(loopId, { pid: proc.pid ?? null });
+    
+    // Watchdog: a hung droid would otherwise hold the loop forever
+    let timedOut: IterationTimeoutError | null = null;
+    const timeOut = (error: IterationTimeoutError) => {
+      if (timedOut) return;
+      timedOut = error;
+      db.logLoop(loopId, `${error.message} - stopping droid`, 'warn');
+      if (proc.pid) terminateProcessGroup(proc.pid);
+    };
+    
+    const iterationTimer = timeouts.iteration_minutes > 0
+      ? setTimeout(() => timeOut(new IterationTimeoutError('iteration_timeout', timeouts.iteration_minutes)), timeouts.iteration_minutes * 60_000)
+      : undefined;
+    let silenceTimer: NodeJS.Timeout | undefined;
+    const resetSilenceTimer = () => {
+      if (timeouts.silence_minutes <= 0) return;
+      clearTimeout(silenceTimer);
+      silenceTimer = setTimeout(() => timeOut(new IterationTimeoutError('silence_timeout', timeouts.silence_minutes)), timeouts.silence_minutes * 60_000);
+    };
+    const clearWatchdog = () => {
+      clearTimeout(iterationTimer);
+      clearTimeout(silenceTimer);
+    };
+    resetSilenceTimer();
     
     proc.stdout?.on('data', (data) => {
-      output.push(data.toString());
+      const chunk = data.toString();
+      resetSilenceTimer();
+      output.push(chunk);
+      transcript.write('out', chunk);
+      onOutput?.(chunk);
     });
     
     proc.stderr?.on('data', (data) => {
-      output.push(data.toString());
+      const chunk = data.toString();
+      resetSilenceTimer();
+      output.push(chunk);
+      transcript.write('err', chunk);
     });
     
     proc.on('close', (code) => {
+      clearWatchdog();
+      transcript.finish(code);
       activeProcesses.delete(loopId);
+      db.updateLoop(loopId, { pid: null });
       const fullOutput = output.join('');
+      recordIteration(loopId, iteration, startedAt, fullOutput);
+      
+      if (timedOut) {
+        reject(timedOut);
+        return;
+      }
       
-      if (code === 0 || fullOutput.includes('<done>')) {
+      const reportedDone = fullOutput.includes('<done>') || parseEvents(fullOutput).some(e => e.type === 'done');
+      if (code === 0 || reportedDone) {
         resolve({ output: fullOutput });
       } else {
         reject(new Error(`Droid exited with code ${code}: ${fullOutput.slice(-500)}`));
@@ -154,50 +492,181 @@ async function runIteration(loopId: string, workspaceDir: string, factoryKey: st
     });
     
     proc.on('error', (err) => {
+      clearWatchdog();
+      transcript.write('err', `Failed to run droid: ${err.message}\n`);
+      transcript.finish(null);
       activeProcesses.delete(loopId);
+      db.updateLoop(loopId, { pid: null });
       reject(err);
     });
   });
 }
 
-function execCommand(cmd: string, options?: { cwd?: string }): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const proc = spawn('sh', ['-c', cmd], { cwd: options?.cwd });
-    const output: string[] = [];
-    
-    proc.stdout?.on('data', (data) => output.push(data.toString()));
-    proc.stderr?.on('data', (data) => output.push(data.toString()));
-    
-    proc.on('close', (code) => {
-      if (code === 0) {
-        resolve(output.join(''));
-      } else {
-        reject(new Error(`Command failed: ${cmd}\n${output.join('')}`));
-      }
-    });
-  });
+function signalProcessGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Not a group leader (started by an older version of the bot), or already gone
+    try {
+      process.kill(pid, signal);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+// SIGTERM droid and everything it started, then SIGKILL whatever ignores it
+function terminateProcessGroup(pid: number): void {
+  signalProcessGroup(pid, 'SIGTERM');
+  setTimeout(() => signalProcessGroup(pid, 'SIGKILL'), KILL_GRACE_MS).unref();
+}
+
+export function isTimedOut(loop: db.Loop): boolean {
+  return loop.status === 'error' && (loop.failure_reason === 'iteration_timeout' || loop.failure_reason === 'silence_timeout');
 }
 
 export function stopLoopProcess(loopId: string): boolean {
   const proc = activeProcesses.get(loopId);
   if (proc) {
-    proc.kill('SIGTERM');
-    activeProcesses.delete(loopId);
+    // Marked stopped first so runLoop treats droid's exit as a stop, not an error
     db.stopLoop(loopId);
+    if (proc.pid) terminateProcessGroup(proc.pid);
+    activeProcesses.delete(loopId);
+    queue.drainQueue();
     return true;
   }
   
-  // Maybe not actively running but in DB
+  // Maybe not actively running but in DB - a timed-out loop is stopped instead of retried
   const loop = db.getLoop(loopId);
-  if (loop && ['running', 'pending', 'paused', 'waiting_approval'].includes(loop.status)) {
+  if (loop && (['queued', 'running', 'pending', 'paused', 'waiting_approval'].includes(loop.status) || isTimedOut(loop))) {
     db.stopLoop(loopId);
+    // A loop still starting up is cleaned up by its startLoop; nothing else will for a paused or waiting one
+    if (!startedLoops.has(loopId)) {
+      cleanupWorkspace(loop).catch(err => console.error(`Failed to clean up loop ${loopId}:`, err));
+    }
+    queue.drainQueue();
     return true;
   }
   
   return false;
 }
 
-export async function approveAndContinue(loopId: string): Promise<void> {
+/**
+ * Finds loops left running or pending by a previous bot process, works out what
+ * happened to their droid process and parks them as paused so they can be resumed.
+ */
+export function reconcileOrphanedLoops(): OrphanedLoop[] {
+  const orphaned: OrphanedLoop[] = [];
+  
+  for (const loop of db.getActiveLoops()) {
+    if (loop.status !== 'running' && loop.status !== 'pending') continue;
+    if (activeProcesses.has(loop.id)) continue;
+    
+    let processState: OrphanedLoop['processState'] = 'none';
+    if (loop.pid) {
+      if (isOrphanedDroid(loop.pid)) {
+        // We can't re-attach to its output, so stop it before the iteration is re-run
+        terminateProcessGroup(loop.pid);
+        processState = 'killed';
+      } else {
+        processState = 'exited';
+      }
+    }
+    
+    db.updateLoop(loop.id, { status: 'paused', pid: null });
+    db.logLoop(loop.id, `Interrupted by bot restart during iteration ${loop.iteration_current} (droid process: ${processState})`, 'warn', { pid: loop.pid });
+    orphaned.push({ loop: db.getLoop(loop.id)!, processState });
+  }
+  
+  return orphaned;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e) {
+    // EPERM means it exists but belongs to someone else
+    return (e as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// Process group from /proc/<pid>/stat - the fields after the command name are state, ppid, pgrp
+function processGroup(pid: number | 'self'): number | null {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf-8');
+    const pgrp = parseInt(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[2], 10);
+    return Number.isNaN(pgrp) ? null : pgrp;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a PID saved by a previous bot process still belongs to its droid.
+ * PIDs are reused after a container restart, so anything that isn't
+ * provably a droid process - including the bot's own group - is left alone.
+ */
+function isOrphanedDroid(pid: number): boolean {
+  if (pid === process.pid || pid === processGroup('self') || !isProcessAlive(pid)) return false;
+  // droid is spawned detached, so it leads the group terminateProcessGroup signals
+  if (processGroup(pid) !== pid) return false;
+  
+  try {
+    const cmdline = readFileSync(`/proc/${pid}/cmdline`, 'utf-8');
+    // The droid binary itself, or the script an interpreter is running
+    return cmdline.split('\0').slice(0, 2).some(arg => /droid[^/]*$/.test(arg));
+  } catch {
+    return false;
+  }
+}
+
+export async function resumeLoop(loopId: string, callbacks: LoopCallbacks = {}): Promise<void> {
+  const loop = db.getLoop(loopId);
+  if (!loop || loop.status !== 'paused') {
+    throw new Error('Loop is not paused');
+  }
+  
+  db.logLoop(loopId, `Resuming from iteration ${Math.max(1, loop.iteration_current)}`);
+  await startLoop(loopId, callbacks, { retryCurrent: true });
+}
+
+/**
+ * Puts a timed-out loop back to re-run the iteration that timed out. The caller
+ * starts it or queues it, like a new loop.
+ */
+export function prepareRetry(loopId: string): db.Loop {
+  const loop = db.getLoop(loopId);
+  if (!loop || !isTimedOut(loop)) {
+    throw new Error('Loop did not time out');
+  }
+  
+  db.updateLoop(loopId, {
+    status: 'pending',
+    error: null,
+    failure_reason: null,
+    completed_at: null,
+    // runLoop starts at the iteration after this one
+    iteration_current: Math.max(0, loop.iteration_current - 1),
+  });
+  db.logLoop(loopId, `Retrying iteration ${Math.max(1, loop.iteration_current)} after ${loop.failure_reason}`);
+  return db.getLoop(loopId)!;
+}
+
+// The loop's current PR with the state of its checks, using the repo's required_checks
+export async function getPRChecks(loop: db.Loop): Promise<{ pr: github.PR; checks: github.ChecksSummary } | null> {
+  if (!loop.current_pr) return null;
+  
+  const pr = await github.getPR(loop.repo_owner, loop.repo_name, loop.current_pr);
+  if (!pr) return null;
+  
+  const repoConfig = getRepo(loop.repo_owner, loop.repo_name);
+  const checks = await github.getChecks(loop.repo_owner, loop.repo_name, pr.head_sha, repoConfig?.required_checks);
+  return { pr, checks };
+}
+
+export async function approveAndContinue(loopId: string, loopCallbacks: LoopCallbacks = {}, options: ApproveOptions = {}): Promise<void> {
+  const callbacks = guardCallbacks(loopId, loopCallbacks);
   const loop = db.getLoop(loopId);
   if (!loop || loop.status !== 'waiting_approval') {
     throw new Error('Loop is not waiting for approval');
@@ -205,13 +674,34 @@ export async function approveAndContinue(loopId: string): Promise<void> {
   
   // Merge the PR if there is one
   if (loop.current_pr) {
-    const merged = await github.mergePR(loop.repo_owner, loop.repo_name, loop.current_pr);
+    // The commit whose checks were verified - a push after the check must not merge unchecked
+    let checkedSha: string | undefined;
+    if (options.override) {
+      db.logLoop(loopId, `Merging PR #${loop.current_pr} without waiting for checks (override)`, 'warn');
+    } else {
+      const status = await getPRChecks(loop);
+      if (status?.checks.state === 'failure' || status?.checks.state === 'pending') {
+        throw new Error(`Checks are ${status.checks.state === 'failure' ? 'failing' : 'still running'} on PR #${loop.current_pr}`);
+      }
+      checkedSha = status?.pr.head_sha;
+    }
+    
+    const merged = await github.mergePR(loop.repo_owner, loop.repo_name, loop.current_pr, checkedSha);
     if (!merged) {
-      throw new Error(`Failed to merge PR #${loop.current_pr}`);
+      throw new Error(checkedSha
+        ? `Failed to merge PR #${loop.current_pr} - if new commits were pushed since its checks ran, approve again once they pass`
+        : `Failed to merge PR #${loop.current_pr}`);
     }
     db.logLoop(loopId, `Merged PR #${loop.current_pr}`);
   }
   
+  if (loop.current_issue) {
+    finishOpenTasks(loopId, 'complete', undefined, loop.current_issue);
+  }
+  dropPendingRevisions(loopId);
+  
+  if (showNextQueuedPR(loopId, callbacks)) return;
+  
   // Continue the loop
   db.updateLoop(loopId, { 
     status: 'running', 
@@ -220,12 +710,27 @@ export async function approveAndContinue(loopId: string): Promise<void> {
   });
   
   // Restart loop execution (fire and forget)
-  startLoop(loopId).catch(err => {
+  startLoop(loopId, callbacks).catch(err => {
     console.error('Error continuing loop:', err);
   });
 }
 
-export function skipAndContinue(loopId: string): void {
+/**
+ * Puts the next PR opened alongside the one just reviewed up for approval,
+ * without running an iteration. Returns false when none are waiting.
+ */
+function showNextQueuedPR(loopId: string, callbacks: LoopCallbacks): boolean {
+  const task = db.getTasksForLoop(loopId).find(t => t.status === 'in_progress' && t.pr_number);
+  if (!task) return false;
+  
+  db.updateLoop(loopId, { status: 'waiting_approval', current_pr: task.pr_number, current_issue: task.issue_number });
+  db.logLoop(loopId, `Waiting for approval on PR #${task.pr_number}`);
+  callbacks.onWaitingApproval?.(db.getLoop(loopId)!, task.issue_number, task.pr_number!);
+  return true;
+}
+
+export function skipAndContinue(loopId: string, loopCallbacks: LoopCallbacks = {}): void {
+  const callbacks = guardCallbacks(loopId, loopCallbacks);
   const loop = db.getLoop(loopId);
   if (!loop || loop.status !== 'waiting_approval') {
     throw new Error('Loop is not waiting for approval');
@@ -237,13 +742,54 @@ export function skipAndContinue(loopId: string): void {
     current_issue: null 
   });
   db.logLoop(loopId, `Skipped PR #${loop.current_pr}`);
+  if (loop.current_issue) {
+    finishOpenTasks(loopId, 'skipped', undefined, loop.current_issue);
+  }
+  dropPendingRevisions(loopId);
+  
+  if (showNextQueuedPR(loopId, callbacks)) return;
   
   // Continue
-  startLoop(loopId).catch(err => {
+  startLoop(loopId, callbacks).catch(err => {
     console.error('Error continuing loop:', err);
   });
 }
 
+/**
+ * Records reviewer feedback on the PR awaiting approval and resumes the loop so
+ * the agent revises that PR. The loop returns to waiting_approval once new
+ * commits land on the PR branch.
+ */
+export async function requestChanges(loopId: string, feedback: string, userId: string, callbacks: LoopCallbacks = {}): Promise<void> {
+  const loop = db.getLoop(loopId);
+  if (!loop || loop.status !== 'waiting_approval') {
+    throw new Error('Loop is not waiting for approval');
+  }
+  if (!loop.current_pr) {
+    throw new Error('Loop has no PR to revise');
+  }
+  
+  const pr = await github.getPR(loop.repo_owner, loop.repo_name, loop.current_pr);
+  if (!pr) {
+    throw new Error(`PR #${loop.current_pr} not found`);
+  }
+  
+  db.addInstruction(loopId, 'revision', feedback, userId, pr);
+  db.updateLoop(loopId, { status: 'running' });
+  db.logLoop(loopId, `Changes requested on PR #${pr.number} by ${userId}`, 'info', { feedback });
+  
+  startLoop(loopId, callbacks).catch(err => {
+    console.error('Error continuing loop:', err);
+  });
+}
+
+// Guidance from a thread reply, applied at the start of the next iteration
+export function addGuidance(loopId: string, text: string, userId: string): db.Instruction {
+  const instruction = db.addInstruction(loopId, 'guidance', text, userId);
+  db.logLoop(loopId, `Instruction from ${userId} queued for the next iteration`, 'info', { text });
+  return instruction;
+}
+
 export function getActiveProcessCount(): number {
   return activeProcesses.size;
 }
@@ -0,0 +1,76 @@
+export interface IterationProgress {
+  iteration: number;
+  elapsedMs: number;
+  recentLines: string[];
+  filesTouched: string[];
+  done: boolean;
+}
+
+export interface ProgressTracker {
+  push: (chunk: string) => void;
+  finish: () => void;
+}
+
+const ANSI_PATTERN = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+// Same shapes extractSummary looks for: git-style status lines and "modified:/created:" notes
+const FILE_PATTERNS = [
+  /^[AMD]\s+(\S+)/,
+  /(?:modified|created|deleted):\s+(\S+)/,
+];
+
+/**
+ * Collects droid output for one iteration and reports a snapshot every
+ * `intervalMs`, plus a final one when the iteration finishes.
+ */
+export function createProgressTracker(
+  iteration: number,
+  intervalMs: number,
+  maxLines: number,
+  emit: (progress: IterationProgress) => void,
+): ProgressTracker {
+  const startedAt = Date.now();
+  const lines: string[] = [];
+  const files = new Set<string>();
+  let partial = '';
+  let finished = false;
+  
+  const snapshot = (done: boolean): IterationProgress => ({
+    iteration,
+    elapsedMs: Date.now() - startedAt,
+    recentLines: (partial ? [...lines, partial] : lines).slice(-maxLines),
+    filesTouched: [...files],
+    done,
+  });
+  
+  const timer = setInterval(() => emit(snapshot(false)), intervalMs);
+  
+  return {
+    push(chunk) {
+      const text = partial + chunk.replace(ANSI_PATTERN, '');
+      const parts = text.split(/\r?\n/);
+      partial = parts.pop() || '';
+      
+      for (const line of parts) {
+        if (!line.trim()) continue;
+        lines.push(line);
+        for (const pattern of FILE_PATTERNS) {
+          const match = line.match(pattern);
+          if (match) files.add(match[1]);
+        }
+      }
+      
+      // Only the tail is ever shown
+      if (lines.length > maxLines * 2) {
+        lines.splice(0, lines.length - maxLines);
+      }
+    },
+    
+    finish() {
+      if (finished) return;
+      finished = true;
+      clearInterval(timer);
+      emit(snapshot(true));
+    },
+  };
+}
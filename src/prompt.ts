@@ -0,0 +1,98 @@
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { Instruction, Loop } from './db.js';
+import type { Issue } from './github.js';
+import type { IssueOrder } from './issues.js';
+import { PROTOCOL_INSTRUCTIONS } from './events.js';
+
+// Kept outside the worktrees so the agent never commits them
+const PROMPT_DIR = './workspaces/prompts';
+
+function promptFile(loopId: string): string {
+  return resolve(PROMPT_DIR, `${loopId}.md`);
+}
+
+function issueSection(issues: Issue[]): string {
+  const list = issues.map(i => `- #${i.number}: ${i.title}`).join('\n');
+  return `## Issues to work on
+
+This loop is limited to the issues below. Take them in this order and do not work on any other issue:
+
+${list}`;
+}
+
+function revisionSection(prNumber: number, feedback: Instruction[]): string {
+  const notes = feedback
+    .map(f => `Feedback from reviewer ${f.author}:\n${f.text.split('\n').map(line => `> ${line}`).join('\n')}`)
+    .join('\n\n');
+  
+  return `## Requested changes
+
+A reviewer asked for changes to PR #${prNumber} before it can be merged. In this iteration:
+
+1. Check out the PR's existing branch (for example \`gh pr checkout ${prNumber}\`).
+2. Make the changes below.
+3. Commit and push to that same branch.
+
+Do not open a new PR and do not start another issue.
+
+${notes}`;
+}
+
+function guidanceSection(guidance: Instruction[]): string {
+  const notes = guidance.map(g => `- From ${g.author}: ${g.text.replace(/\n+/g, ' ')}`).join('\n');
+  return `## Instructions from the team
+
+Operators sent these notes while the loop was running. Follow them; where they conflict with the instructions above, these win:
+
+${notes}`;
+}
+
+function orderSection(order: IssueOrder): string {
+  const how = order === 'priority'
+    ? 'most urgent first, by priority label (P0 before P1, critical/high before medium/low), then oldest first'
+    : 'oldest first';
+  return `## Issue order
+
+Pick the next issue to work on ${how}.`;
+}
+
+export interface PromptExtras {
+  // Only passed when the loop was limited to certain issues
+  selectedIssues?: Issue[];
+  // How the agent should pick issues when none were selected
+  order?: IssueOrder;
+  // Reviewer feedback for the PR awaiting approval
+  revision?: { prNumber: number; feedback: Instruction[] };
+  // Replies left in the loop's Slack thread since the last iteration
+  guidance?: Instruction[];
+}
+
+/**
+ * Writes the prompt for the next iteration: the repo's own prompt file followed
+ * by the bot's sections. Returns the absolute path to pass to `droid exec -f`.
+ */
+export function buildPrompt(loop: Loop, workspaceDir: string, promptPath: string, extras: PromptExtras = {}): string {
+  const repoPromptPath = join(workspaceDir, promptPath);
+  if (!existsSync(repoPromptPath)) {
+    throw new Error(`Prompt file not found in ${loop.repo_owner}/${loop.repo_name}: ${promptPath}`);
+  }
+  
+  const sections = [
+    readFileSync(repoPromptPath, 'utf-8').trimEnd(),
+    ...(extras.revision ? [revisionSection(extras.revision.prNumber, extras.revision.feedback)] : []),
+    ...(extras.selectedIssues && !extras.revision ? [issueSection(extras.selectedIssues)] : []),
+    ...(!extras.selectedIssues && !extras.revision ? [orderSection(extras.order || 'oldest')] : []),
+    ...(extras.guidance?.length ? [guidanceSection(extras.guidance)] : []),
+    PROTOCOL_INSTRUCTIONS,
+  ];
+  
+  mkdirSync(PROMPT_DIR, { recursive: true });
+  const file = promptFile(loop.id);
+  writeFileSync(file, sections.join('\n\n') + '\n');
+  return file;
+}
+
+export function removePrompt(loopId: string): void {
+  rmSync(promptFile(loopId), { force: true });
+}
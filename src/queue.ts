@@ -0,0 +1,60 @@
+import * as db from './db.js';
+import { getConfig } from './config.js';
+
+type LoopStarter = (loop: db.Loop) => void;
+
+let starter: LoopStarter | null = null;
+
+// index.ts owns the Slack client, so it tells us how to start a dequeued loop
+export function setLoopStarter(fn: LoopStarter): void {
+  starter = fn;
+}
+
+// Loops holding a slot: everything active except what is still waiting in the queue
+function occupyingLoops(): db.Loop[] {
+  return db.getActiveLoops().filter(l => l.status !== 'queued');
+}
+
+export function hasCapacity(owner: string, name: string): boolean {
+  const { concurrency } = getConfig();
+  const running = occupyingLoops();
+  
+  if (running.length >= concurrency.max_parallel_loops) return false;
+  
+  const forRepo = running.filter(l => l.repo_owner === owner && l.repo_name === name);
+  return forRepo.length < concurrency.max_per_repo;
+}
+
+export function enqueue(loopId: string): number {
+  db.queueLoop(loopId);
+  const position = queuePosition(loopId);
+  db.logLoop(loopId, `Queued at position ${position}`);
+  return position;
+}
+
+// 1-based position in the queue, or 0 if the loop isn't queued
+export function queuePosition(loopId: string): number {
+  return db.getQueuedLoops().findIndex(l => l.id === loopId) + 1;
+}
+
+/**
+ * Starts queued loops, oldest first, for as long as there are free slots.
+ * A loop whose repo is full is skipped so loops on other repos aren't held up.
+ */
+export function drainQueue(): db.Loop[] {
+  const started: db.Loop[] = [];
+  
+  for (const queued of db.getQueuedLoops()) {
+    if (!hasCapacity(queued.repo_owner, queued.repo_name)) continue;
+    
+    // Claim the slot before starting so the next capacity check sees it
+    db.updateLoop(queued.id, { status: 'pending' });
+    db.logLoop(queued.id, 'Slot available - leaving queue');
+    
+    const loop = db.getLoop(queued.id)!;
+    started.push(loop);
+    starter?.(loop);
+  }
+  
+  return started;
+}
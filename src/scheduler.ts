@@ -0,0 +1,79 @@
+import * as db from './db.js';
+import { getConfig } from './config.js';
+import { cronMatches } from './cron.js';
+
+type ScheduleRunner = (schedule: db.Schedule) => Promise<void>;
+
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+let timer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Mirrors the schedules in config.yaml into SQLite. Config schedules are keyed
+ * by repo and position so their last run survives restarts; ones removed from
+ * the file are deleted.
+ */
+export function syncConfigSchedules(): void {
+  const config = getConfig();
+  const keep: string[] = [];
+  
+  for (const repo of config.repos) {
+    repo.schedules.forEach((schedule, index) => {
+      const id = `config:${repo.owner}/${repo.name}:${index}`;
+      keep.push(id);
+      db.upsertSchedule({
+        id,
+        repo_owner: repo.owner,
+        repo_name: repo.name,
+        cron: schedule.cron,
+        mode: schedule.mode,
+        iteration_max: schedule.iterations,
+        issue_labels: schedule.labels,
+        channel_id: schedule.channel || repo.channel || null,
+        run_as: schedule.run_as || null,
+        source: 'config',
+        created_by: 'config',
+      });
+    });
+  }
+  
+  db.deleteConfigSchedulesExcept(keep);
+}
+
+// Minute resolution: the key a schedule's last run is compared against
+function minuteKey(date: Date): string {
+  const local = new Date(date);
+  local.setSeconds(0, 0);
+  return local.toISOString();
+}
+
+export async function runDueSchedules(run: ScheduleRunner, now = new Date()): Promise<void> {
+  const key = minuteKey(now);
+  
+  for (const schedule of db.getSchedules()) {
+    if (schedule.last_run_at === key) continue;
+    
+    let due = false;
+    try {
+      due = cronMatches(schedule.cron, now);
+    } catch (err) {
+      console.error(`Invalid cron for schedule ${schedule.id}:`, err);
+    }
+    if (!due) continue;
+    
+    // Mark first so a slow start can't fire twice in the same minute
+    db.markScheduleRun(schedule.id, key);
+    try {
+      await run(schedule);
+    } catch (err) {
+      console.error(`Scheduled loop ${schedule.id} failed to start:`, err);
+    }
+  }
+}
+
+export function startScheduler(run: ScheduleRunner): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    runDueSchedules(run).catch(err => console.error('Scheduler error:', err));
+  }, CHECK_INTERVAL_MS);
+}
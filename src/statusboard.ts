@@ -0,0 +1,52 @@
+import * as db from './db.js';
+import * as views from './views.js';
+import { getConfig } from './config.js';
+
+// Per-channel chain so two quick state changes can't both post a new board
+const updates = new Map<string, Promise<void>>();
+
+/**
+ * Edits the channel's pinned status message in place, posting and pinning a
+ * new one if there isn't one yet (or the old one was deleted).
+ */
+export function refreshStatusBoard(client: any, channelId: string): Promise<void> {
+  if (!channelId || !getConfig().notifications.pin_status) return Promise.resolve();
+  
+  const previous = updates.get(channelId) || Promise.resolve();
+  const next = previous
+    .then(() => updateBoard(client, channelId))
+    .catch(err => console.error(`Failed to update status board in ${channelId}:`, err));
+  updates.set(channelId, next);
+  return next;
+}
+
+export async function refreshAllStatusBoards(client: any): Promise<void> {
+  await Promise.all(db.getStatusBoards().map(b => refreshStatusBoard(client, b.channel_id)));
+}
+
+export function isStatusBoard(channelId: string, messageTs: string): boolean {
+  return db.getStatusBoard(channelId)?.message_ts === messageTs;
+}
+
+async function updateBoard(client: any, channelId: string): Promise<void> {
+  const loops = db.getActiveLoops().filter(l => l.channel_id === channelId);
+  const message = views.statusMessage(loops, db.getStats());
+  
+  const board = db.getStatusBoard(channelId);
+  if (board) {
+    try {
+      await client.chat.update({ channel: channelId, ts: board.message_ts, ...message });
+      db.touchStatusBoard(channelId);
+      return;
+    } catch (err: any) {
+      // Someone deleted it - fall through and post a fresh one
+      if (err?.data?.error !== 'message_not_found') throw err;
+    }
+  }
+  
+  const result = await client.chat.postMessage({ channel: channelId, ...message });
+  if (!result.ts) return;
+  
+  await client.pins.add({ channel: channelId, timestamp: result.ts });
+  db.saveStatusBoard(channelId, result.ts);
+}
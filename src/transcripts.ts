@@ -0,0 +1,114 @@
+import { createWriteStream, existsSync, mkdirSync, readFileSync, rmSync } from 'fs';
+import { join, resolve } from 'path';
+import { getConfig } from './config.js';
+import * as db from './db.js';
+import type { Transcript } from './db.js';
+
+// Kept outside the worktrees, next to the prompts
+const TRANSCRIPT_DIR = './workspaces/transcripts';
+
+export type TranscriptStream = 'out' | 'err';
+
+// One line of a transcript file
+export interface TranscriptChunk {
+  // ISO timestamp of when the chunk arrived
+  t: string;
+  s: TranscriptStream;
+  d: string;
+}
+
+export interface TranscriptWriter {
+  write(stream: TranscriptStream, chunk: string): void;
+  finish(exitCode: number | null): void;
+}
+
+/**
+ * Starts recording a droid run. Each chunk of output is appended to a JSON
+ * lines file as it arrives, so a crash still leaves everything up to that point.
+ */
+export function openTranscript(loopId: string, iteration: number): TranscriptWriter {
+  const dir = resolve(TRANSCRIPT_DIR, loopId);
+  mkdirSync(dir, { recursive: true });
+  
+  // Retries reuse the iteration number, so the start time keeps the files apart
+  const path = join(dir, `iteration-${iteration}-${Date.now()}.jsonl`);
+  const transcript = db.createTranscript(loopId, iteration, path);
+  const file = createWriteStream(path, { flags: 'a' });
+  let bytes = 0;
+  let finished = false;
+  
+  file.on('error', (err) => {
+    console.error(`Failed to write transcript ${path}:`, err);
+  });
+  
+  return {
+    write(stream, chunk) {
+      if (finished) return;
+      bytes += Buffer.byteLength(chunk);
+      const line: TranscriptChunk = { t: new Date().toISOString(), s: stream, d: chunk };
+      file.write(JSON.stringify(line) + '\n');
+    },
+    finish(exitCode) {
+      if (finished) return;
+      finished = true;
+      file.end();
+      db.finishTranscript(transcript.id, exitCode, bytes);
+    },
+  };
+}
+
+export function readTranscript(transcript: Transcript): TranscriptChunk[] {
+  if (!existsSync(transcript.path)) return [];
+  
+  return readFileSync(transcript.path, 'utf-8')
+    .split('\n')
+    .filter(line => line.trim())
+    .flatMap(line => {
+      try {
+        return [JSON.parse(line) as TranscriptChunk];
+      } catch {
+        // A partial last line if the bot died mid-write
+        return [];
+      }
+    });
+}
+
+export function transcriptHeader(transcript: Transcript): string {
+  const status = transcript.finished_at
+    ? `finished ${transcript.finished_at}${transcript.exit_code !== null ? `, exit code ${transcript.exit_code}` : ''}`
+    : 'still running';
+  return `Iteration ${transcript.iteration} - started ${transcript.started_at}, ${status}`;
+}
+
+// Every line prefixed with the time its chunk arrived; stderr is marked
+export function transcriptText(transcript: Transcript): string {
+  const chunks = readTranscript(transcript);
+  if (chunks.length === 0) {
+    return existsSync(transcript.path) ? '(no output)' : '(transcript file missing)';
+  }
+  
+  return chunks.flatMap(chunk => {
+    const prefix = `[${chunk.t}]${chunk.s === 'err' ? ' [stderr]' : ''}`;
+    return chunk.d.replace(/\n$/, '').split('\n').map(line => `${prefix} ${line}`);
+  }).join('\n');
+}
+
+/**
+ * Deletes transcripts older than transcripts.retention_days, noting each one in
+ * its loop's log. Returns how many were removed.
+ */
+export function pruneTranscripts(): number {
+  const { retention_days } = getConfig().transcripts;
+  if (retention_days <= 0) return 0;
+  
+  const cutoff = new Date(Date.now() - retention_days * 24 * 60 * 60 * 1000).toISOString();
+  const expired = db.getTranscriptsFinishedBefore(cutoff);
+  
+  for (const transcript of expired) {
+    rmSync(transcript.path, { force: true });
+    db.deleteTranscript(transcript.id);
+    db.logLoop(transcript.loop_id, `Deleted expired transcript for iteration ${transcript.iteration}`);
+  }
+  
+  return expired.length;
+}
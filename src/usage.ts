@@ -0,0 +1,99 @@
+import { getConfig, getRepo, type Budget } from './config.js';
+import * as db from './db.js';
+
+export type BudgetScope = 'loop' | 'user' | 'repo';
+
+export interface BudgetExceeded {
+  scope: BudgetScope;
+  metric: 'minutes' | 'credits';
+  used: number;
+  limit: number;
+}
+
+// droid's summary wording varies between versions - the last figure printed wins
+const TOKEN_PATTERNS = [
+  /"total_tokens"\s*:\s*(\d+)/g,
+  /\b(?:total )?tokens(?: used)?\s*[:=]\s*([\d,]+)/gi,
+];
+const CREDIT_PATTERNS = [
+  /"credits(?:_used)?"\s*:\s*([\d.]+)/g,
+  /\bcredits(?: used)?\s*[:=]\s*([\d.,]+)/gi,
+];
+
+function lastNumber(output: string, patterns: RegExp[]): number | null {
+  let last: { index: number; value: number } | null = null;
+  
+  for (const pattern of patterns) {
+    for (const match of output.matchAll(pattern)) {
+      const value = parseFloat(match[1].replace(/,/g, ''));
+      if (!isNaN(value) && (!last || match.index! > last.index)) {
+        last = { index: match.index!, value };
+      }
+    }
+  }
+  
+  return last ? last.value : null;
+}
+
+export function parseUsage(output: string): { tokens: number | null; credits: number | null } {
+  const tokens = lastNumber(output, TOKEN_PATTERNS);
+  return {
+    tokens: tokens !== null ? Math.round(tokens) : null,
+    credits: lastNumber(output, CREDIT_PATTERNS),
+  };
+}
+
+/**
+ * Saves how long an iteration's droid run took and what it reported spending.
+ * A failed write is logged rather than thrown so it can't fail the iteration.
+ */
+export function recordIteration(loopId: string, iteration: number, startedAt: Date, output: string): void {
+  const loop = db.getLoop(loopId);
+  if (!loop) return;
+  
+  const finishedAt = new Date();
+  try {
+    db.addIterationUsage({
+      loop_id: loopId,
+      iteration,
+      user_id: loop.started_by,
+      repo: `${loop.repo_owner}/${loop.repo_name}`,
+      started_at: startedAt.toISOString(),
+      finished_at: finishedAt.toISOString(),
+      duration_ms: finishedAt.getTime() - startedAt.getTime(),
+      ...parseUsage(output),
+    });
+  } catch (err) {
+    console.error(`Failed to record usage for loop ${loopId} iteration ${iteration}:`, err);
+  }
+}
+
+// Daily budgets reset at midnight UTC
+export function startOfDay(now = new Date()): string {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+function overBudget(scope: BudgetScope, budget: Budget | undefined, totals: db.UsageTotals): BudgetExceeded | null {
+  const minutes = totals.duration_ms / 60_000;
+  if (budget?.max_minutes !== undefined && minutes >= budget.max_minutes) {
+    return { scope, metric: 'minutes', used: minutes, limit: budget.max_minutes };
+  }
+  if (budget?.max_credits !== undefined && totals.credits >= budget.max_credits) {
+    return { scope, metric: 'credits', used: totals.credits, limit: budget.max_credits };
+  }
+  return null;
+}
+
+/**
+ * The first budget this loop has used up - its own, its starter's daily
+ * budget or its repo's - or null if it may run another iteration.
+ */
+export function checkBudgets(loop: db.Loop): BudgetExceeded | null {
+  const { budgets } = getConfig();
+  const repo = `${loop.repo_owner}/${loop.repo_name}`;
+  const since = startOfDay();
+  
+  return overBudget('loop', budgets.loop, db.getUsageTotals({ loop_id: loop.id }))
+    || overBudget('user', budgets.user, db.getUsageTotals({ user_id: loop.started_by, since }))
+    || overBudget('repo', getRepo(loop.repo_owner, loop.repo_name)?.budget ?? budgets.repo, db.getUsageTotals({ repo, since }));
+}
@@ -1,6 +1,20 @@
-import type { Loop } from './db.js';
-import type { Issue, PR } from './github.js';
+import type { AuditEntry, FactoryKey, Loop, RoleGrant, Schedule, Task, UsageGroup, UsageTotals } from './db.js';
+import type { ChecksSummary, Issue, PR } from './github.js';
 import type { Repo } from './config.js';
+import type { IterationProgress } from './progress.js';
+import type { LogPage, LogView } from './logs.js';
+import type { BudgetExceeded } from './usage.js';
+import { ISSUE_ORDER_LABELS, hasSelection, selectionForLoop, type IssueOrder } from './issues.js';
+
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
 
 export function repoPickerBlocks(repos: Repo[], actionId = 'select_repo') {
   return [
@@ -34,10 +48,138 @@ export function repoPickerBlocks(repos: Repo[], actionId = 'select_repo') {
   ];
 }
 
-export function startLoopModal(repos: Repo[]) {
+export interface StartLoopModalOptions {
+  channelId?: string;
+  repo?: string;
+  // Filled in once a repo is picked
+  labels?: string[];
+  issues?: Issue[];
+}
+
+function repoOption(repo: string) {
+  return {
+    text: {
+      type: 'plain_text' as const,
+      text: repo,
+    },
+    value: repo,
+  };
+}
+
+// Slack caps option text at 75 characters
+function truncate(text: string, max = 75): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+function issueSelectionBlocks(options: StartLoopModalOptions) {
+  if (!options.repo) return [];
+  
+  if (!options.issues) {
+    return [
+      {
+        type: 'context',
+        block_id: 'issues_loading',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: '⏳ Loading labels and issues...',
+          },
+        ],
+      },
+    ];
+  }
+  
+  const blocks: any[] = [];
+  
+  if (options.labels && options.labels.length > 0) {
+    blocks.push({
+      type: 'input',
+      block_id: 'labels_block',
+      optional: true,
+      element: {
+        type: 'multi_static_select',
+        action_id: 'labels_select',
+        placeholder: {
+          type: 'plain_text',
+          text: 'Any label',
+        },
+        options: options.labels.slice(0, 100).map(l => ({
+          text: {
+            type: 'plain_text',
+            text: truncate(l),
+          },
+          value: l,
+        })),
+      },
+      label: {
+        type: 'plain_text',
+        text: 'Only issues labelled',
+      },
+    });
+  }
+  
+  if (options.issues.length > 0) {
+    blocks.push({
+      type: 'input',
+      block_id: 'issues_block',
+      optional: true,
+      element: {
+        type: 'multi_static_select',
+        action_id: 'issues_select',
+        placeholder: {
+          type: 'plain_text',
+          text: 'Any open issue',
+        },
+        options: options.issues.slice(0, 100).map(i => ({
+          text: {
+            type: 'plain_text',
+            text: truncate(`#${i.number}: ${i.title}`),
+          },
+          value: String(i.number),
+        })),
+      },
+      label: {
+        type: 'plain_text',
+        text: 'Only these issues',
+      },
+    });
+  }
+  
+  blocks.push({
+    type: 'input',
+    block_id: 'order_block',
+    element: {
+      type: 'radio_buttons',
+      action_id: 'order_select',
+      initial_option: {
+        text: {
+          type: 'plain_text',
+          text: ISSUE_ORDER_LABELS.oldest,
+        },
+        value: 'oldest',
+      },
+      options: (Object.keys(ISSUE_ORDER_LABELS) as IssueOrder[]).map(order => ({
+        text: {
+          type: 'plain_text',
+          text: ISSUE_ORDER_LABELS[order],
+        },
+        value: order,
+      })),
+    },
+    label: {
+      type: 'plain_text',
+      text: 'Issue order',
+    },
+  });
+  
+  return blocks;
+}
+
+export function startLoopModal(repos: Repo[], options: StartLoopModalOptions = {}) {
   return {
     type: 'modal' as const,
     callback_id: 'start_loop_modal',
+    private_metadata: JSON.stringify({ channelId: options.channelId }),
     title: {
       type: 'plain_text' as const,
       text: 'Start Loop',
@@ -54,6 +196,8 @@ export function startLoopModal(repos: Repo[]) {
       {
         type: 'input',
         block_id: 'repo_block',
+        // Picking a repo loads its labels and issues into the modal
+        dispatch_action: true,
         element: {
           type: 'static_select',
           action_id: 'repo_select',
@@ -61,19 +205,15 @@ export function startLoopModal(repos: Repo[]) {
             type: 'plain_text',
             text: 'Select repository',
           },
-          options: repos.map(r => ({
-            text: {
-              type: 'plain_text',
-              text: `${r.owner}/${r.name}`,
-            },
-            value: `${r.owner}/${r.name}`,
-          })),
+          ...(options.repo ? { initial_option: repoOption(options.repo) } : {}),
+          options: repos.map(r => repoOption(`${r.owner}/${r.name}`)),
         },
         label: {
           type: 'plain_text',
           text: 'Repository',
         },
       },
+      ...issueSelectionBlocks(options),
       {
         type: 'input',
         block_id: 'iterations_block',
@@ -213,6 +353,11 @@ export function loopStartedMessage(loop: Loop, issues: Issue[]) {
     ? issues.slice(0, 5).map(i => `• #${i.number}: ${i.title}`).join('\n')
     : '_No open issues found_';
   
+  const selection = selectionForLoop(loop);
+  const issueHeading = hasSelection(selection)
+    ? `*Selected issues* (${ISSUE_ORDER_LABELS[selection.order].toLowerCase()}${selection.labels.length > 0 ? `, labelled ${selection.labels.map(l => `\`${l}\``).join(' or ')}` : ''}):`
+    : '*Open issues:*';
+  
   return {
     text: `🚀 Loop started on ${loop.repo_owner}/${loop.repo_name}`,
     blocks: [
@@ -227,7 +372,7 @@ export function loopStartedMessage(loop: Loop, issues: Issue[]) {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Open issues:*\n${issueList}`,
+          text: `${issueHeading}\n${issueList}`,
         },
       },
       {
@@ -249,6 +394,36 @@ export function loopStartedMessage(loop: Loop, issues: Issue[]) {
   };
 }
 
+export function loopQueuedMessage(loop: Loop, position: number) {
+  return {
+    text: `⏳ Loop queued on ${loop.repo_owner}/${loop.repo_name}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `⏳ *Loop queued* on \`${loop.repo_owner}/${loop.repo_name}\` - position ${position}\n\nMode: ${loop.mode === 'approval' ? '✋ Approval' : '🤖 Auto'} • Max iterations: ${loop.iteration_max}\nIt will start automatically when a slot frees up.`,
+        },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '⏹️ Cancel',
+            },
+            style: 'danger',
+            action_id: 'stop_loop',
+            value: loop.id,
+          },
+        ],
+      },
+    ],
+  };
+}
+
 export function iterationUpdateMessage(loop: Loop, iteration: number, summary: string) {
   return {
     text: `Iteration ${iteration}/${loop.iteration_max}`,
@@ -273,7 +448,120 @@ export function iterationUpdateMessage(loop: Loop, iteration: number, summary: s
   };
 }
 
-export function waitingApprovalMessage(loop: Loop, issue: Issue | null, pr: PR) {
+export function iterationProgressMessage(loop: Loop, progress: IterationProgress) {
+  const heading = progress.done
+    ? `✅ *Iteration ${progress.iteration}/${loop.iteration_max}* finished in ${formatDuration(progress.elapsedMs)}`
+    : `⏳ *Iteration ${progress.iteration}/${loop.iteration_max}* running for ${formatDuration(progress.elapsedMs)}`;
+  
+  const files = progress.filesTouched.length > 0
+    ? progress.filesTouched.slice(0, 10).map(f => `\`${f}\``).join(', ') + (progress.filesTouched.length > 10 ? ` +${progress.filesTouched.length - 10} more` : '')
+    : '_None yet_';
+  
+  // Keep well inside Slack's 3000 character section limit
+  let output = progress.recentLines.join('\n');
+  if (output.length > 2000) output = '…' + output.slice(-2000);
+  
+  return {
+    text: `Iteration ${progress.iteration}/${loop.iteration_max}`,
+    blocks: [
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: heading,
+          },
+        ],
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Files touched:* ${files}`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: output ? `\`\`\`${output}\`\`\`` : '_Waiting for output..._',
+        },
+      },
+    ],
+  };
+}
+
+const CHECK_ICONS = {
+  success: '✅',
+  failure: '❌',
+  pending: '⏳',
+  none: '➖',
+};
+
+function checksText(checks: ChecksSummary): string {
+  const heading = {
+    success: '✅ *Checks passed*',
+    failure: '❌ *Checks failing*',
+    pending: '⏳ *Checks running*',
+    none: '➖ *No checks reported*',
+  }[checks.state];
+  
+  // Failures first, then anything still running
+  const ordered = [...checks.checks].sort((a, b) => {
+    const rank = { failure: 0, pending: 1, success: 2 };
+    return rank[a.state] - rank[b.state];
+  });
+  const lines = ordered.slice(0, 10).map(c => `${CHECK_ICONS[c.state]} ${c.url ? `<${c.url}|${c.name}>` : c.name}`);
+  if (ordered.length > 10) lines.push(`_+${ordered.length - 10} more_`);
+  
+  return [heading, ...lines].join('\n');
+}
+
+export function waitingApprovalMessage(loop: Loop, issue: Issue | null, pr: PR, checks?: ChecksSummary | null) {
+  const diffStats = pr.changed_files !== undefined
+    ? `\n${pr.changed_files} file${pr.changed_files === 1 ? '' : 's'} changed • +${pr.additions ?? 0} −${pr.deletions ?? 0}`
+    : '';
+  const checksPassing = !checks || checks.state === 'success' || checks.state === 'none';
+  
+  const approveButton = checksPassing
+    ? {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '✅ Approve & Continue',
+        },
+        style: 'primary',
+        action_id: 'approve_loop',
+        value: loop.id,
+      }
+    : {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: '⚠️ Merge Anyway',
+        },
+        action_id: 'approve_loop_override',
+        value: loop.id,
+        confirm: {
+          title: {
+            type: 'plain_text',
+            text: 'Merge without green checks?',
+          },
+          text: {
+            type: 'mrkdwn',
+            text: `Checks on PR #${pr.number} are ${checks?.state === 'failure' ? 'failing' : 'still running'}. Merge it anyway?`,
+          },
+          confirm: {
+            type: 'plain_text',
+            text: 'Merge',
+          },
+          deny: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+        },
+      };
+  
   return {
     text: `✅ Task complete - waiting for approval`,
     blocks: [
@@ -281,20 +569,31 @@ export function waitingApprovalMessage(loop: Loop, issue: Issue | null, pr: PR)
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `✅ *Task complete${issue ? `: ${issue.title}` : ''}*\n\nPR <${pr.html_url}|#${pr.number}> is ready for review.`,
+          text: `✅ *Task complete${issue ? `: ${issue.title}` : ''}*\n\nPR <${pr.html_url}|#${pr.number}> is ready for review.${diffStats}`,
         },
       },
+      ...(checks
+        ? [
+            {
+              type: 'section',
+              text: {
+                type: 'mrkdwn',
+                text: checksText(checks),
+              },
+            },
+          ]
+        : []),
       {
         type: 'actions',
         elements: [
+          approveButton,
           {
             type: 'button',
             text: {
               type: 'plain_text',
-              text: '✅ Approve & Continue',
+              text: '✏️ Request Changes',
             },
-            style: 'primary',
-            action_id: 'approve_loop',
+            action_id: 'request_changes',
             value: loop.id,
           },
           {
@@ -322,69 +621,125 @@ export function waitingApprovalMessage(loop: Loop, issue: Issue | null, pr: PR)
   };
 }
 
-export function loopCompleteMessage(loop: Loop) {
+export function requestChangesModal(loop: Loop, channelId: string, threadTs?: string) {
   return {
-    text: `🎉 Loop complete`,
+    type: 'modal' as const,
+    callback_id: 'request_changes_modal',
+    private_metadata: JSON.stringify({ loopId: loop.id, channelId, threadTs }),
+    title: {
+      type: 'plain_text' as const,
+      text: 'Request Changes',
+    },
+    submit: {
+      type: 'plain_text' as const,
+      text: 'Send to Agent',
+    },
+    close: {
+      type: 'plain_text' as const,
+      text: 'Cancel',
+    },
     blocks: [
       {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `🎉 *Loop complete* on \`${loop.repo_owner}/${loop.repo_name}\`\n\nCompleted ${loop.iteration_current} iteration${loop.iteration_current === 1 ? '' : 's'}.`,
+          text: `The agent will revise PR #${loop.current_pr} on its existing branch, then ask for approval again.`,
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'feedback_block',
+        element: {
+          type: 'plain_text_input',
+          action_id: 'feedback_input',
+          multiline: true,
+          placeholder: {
+            type: 'plain_text',
+            text: 'e.g., Use the existing Button component and add a test for the empty state',
+          },
+        },
+        label: {
+          type: 'plain_text',
+          text: 'What should change?',
         },
       },
     ],
   };
 }
 
-export function loopErrorMessage(loop: Loop, error: string) {
+export function loopBlockedMessage(loop: Loop, reason: string, issueNumber: number | null) {
+  const issue = issueNumber
+    ? ` on <https://github.com/${loop.repo_owner}/${loop.repo_name}/issues/${issueNumber}|#${issueNumber}>`
+    : '';
+  
   return {
-    text: `❌ Loop error`,
+    text: `🚧 Agent blocked`,
     blocks: [
       {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `❌ *Loop error* on \`${loop.repo_owner}/${loop.repo_name}\`\n\n\`\`\`${error.slice(0, 500)}\`\`\``,
+          text: `🚧 *Agent blocked*${issue}\n\n${reason.slice(0, 1000)}`,
         },
       },
     ],
   };
 }
 
-export function statusMessage(activeLoops: Loop[], stats: { active: number; completed_today: number; total: number }) {
-  const activeSection = activeLoops.length > 0
-    ? activeLoops.map(l => {
-        const status = l.status === 'waiting_approval' ? '✋ Waiting approval' : '🔄 Running';
-        return `• \`${l.repo_owner}/${l.repo_name}\` - ${status} (${l.iteration_current}/${l.iteration_max})`;
-      }).join('\n')
-    : '_No active loops_';
-
+export function loopCompleteMessage(loop: Loop) {
   return {
-    text: '📊 Loop Status',
+    text: `🎉 Loop complete`,
     blocks: [
       {
-        type: 'header',
+        type: 'section',
         text: {
-          type: 'plain_text',
-          text: '📊 Loop Status',
+          type: 'mrkdwn',
+          text: `🎉 *Loop complete* on \`${loop.repo_owner}/${loop.repo_name}\`\n\nCompleted ${loop.iteration_current} iteration${loop.iteration_current === 1 ? '' : 's'}.`,
         },
       },
+    ],
+  };
+}
+
+export function loopErrorMessage(loop: Loop, error: string) {
+  return {
+    text: `❌ Loop error`,
+    blocks: [
       {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Active:* ${stats.active} • *Completed today:* ${stats.completed_today} • *Total:* ${stats.total}`,
+          text: `❌ *Loop error* on \`${loop.repo_owner}/${loop.repo_name}\`\n\n\`\`\`${error.slice(0, 500)}\`\`\``,
         },
       },
       {
-        type: 'divider',
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Full log: \`/loop logs ${loop.id.slice(0, 8)}\``,
+          },
+        ],
       },
+    ],
+  };
+}
+
+export function loopInterruptedMessage(loop: Loop, processState: 'none' | 'exited' | 'killed') {
+  const processNote = {
+    none: 'No droid process was running at the time.',
+    exited: 'The droid process had already exited.',
+    killed: 'The orphaned droid process was still running and has been terminated.',
+  }[processState];
+  
+  return {
+    text: `⚠️ Loop interrupted by a bot restart`,
+    blocks: [
       {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Active loops:*\n${activeSection}`,
+          text: `⚠️ *Loop interrupted* on \`${loop.repo_owner}/${loop.repo_name}\` during iteration ${Math.max(1, loop.iteration_current)}/${loop.iteration_max}\n\nThe bot restarted while this loop was running. ${processNote}`,
         },
       },
       {
@@ -394,25 +749,21 @@ export function statusMessage(activeLoops: Loop[], stats: { active: number; comp
             type: 'button',
             text: {
               type: 'plain_text',
-              text: '🔄 Refresh',
-            },
-            action_id: 'refresh_status',
-          },
-          {
-            type: 'button',
-            text: {
-              type: 'plain_text',
-              text: '➕ Start Loop',
+              text: '▶️ Resume',
             },
-            action_id: 'open_start_modal',
+            style: 'primary',
+            action_id: 'resume_loop',
+            value: loop.id,
           },
           {
             type: 'button',
             text: {
               type: 'plain_text',
-              text: '📝 Create Task',
+              text: '⏹️ Stop',
             },
-            action_id: 'open_task_modal',
+            style: 'danger',
+            action_id: 'stop_loop',
+            value: loop.id,
           },
         ],
       },
@@ -420,15 +771,17 @@ export function statusMessage(activeLoops: Loop[], stats: { active: number; comp
   };
 }
 
-export function taskCreatedMessage(repo: string, issue: Issue) {
+export function loopTimeoutMessage(loop: Loop, error: string) {
+  const kind = loop.failure_reason === 'silence_timeout' ? 'went silent' : 'timed out';
+  
   return {
-    text: `📝 Task created: ${issue.title}`,
+    text: `⏱️ Loop iteration ${kind}`,
     blocks: [
       {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `📝 *Task created* in \`${repo}\`\n\n<${issue.html_url}|#${issue.number}: ${issue.title}>`,
+          text: `⏱️ *Iteration ${kind}* on \`${loop.repo_owner}/${loop.repo_name}\` (${Math.max(1, loop.iteration_current)}/${loop.iteration_max})\n\n${error}. The droid process was killed.`,
         },
       },
       {
@@ -438,10 +791,685 @@ export function taskCreatedMessage(repo: string, issue: Issue) {
             type: 'button',
             text: {
               type: 'plain_text',
-              text: '🚀 Start Loop Now',
+              text: '🔁 Retry',
             },
-            action_id: 'start_loop_for_repo',
-            value: repo,
+            style: 'primary',
+            action_id: 'retry_loop',
+            value: loop.id,
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '⏹️ Stop',
+            },
+            style: 'danger',
+            action_id: 'stop_loop',
+            value: loop.id,
+          },
+        ],
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Retry re-runs the iteration. Full log: \`/loop logs ${loop.id.slice(0, 8)}\``,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function statusMessage(activeLoops: Loop[], stats: { active: number; completed_today: number; total: number }) {
+  const queued = activeLoops
+    .filter(l => l.status === 'queued')
+    .sort((a, b) => (a.queued_at || '').localeCompare(b.queued_at || ''));
+  
+  const activeSection = activeLoops.length > 0
+    ? activeLoops.map(l => {
+        const status = l.status === 'waiting_approval' ? '✋ Waiting approval'
+          : l.status === 'paused' ? '⏸️ Paused'
+          : l.status === 'queued' ? `⏳ Queued (#${queued.indexOf(l) + 1})`
+          : '🔄 Running';
+        return `• \`${l.repo_owner}/${l.repo_name}\` - ${status} (${l.iteration_current}/${l.iteration_max}) \`${l.id.slice(0, 8)}\``;
+      }).join('\n')
+    : '_No active loops_';
+  
+  return {
+    text: '📊 Loop Status',
+    blocks: [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: '📊 Loop Status',
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Active:* ${stats.active} • *Completed today:* ${stats.completed_today} • *Total:* ${stats.total}`,
+        },
+      },
+      {
+        type: 'divider',
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Active loops:*\n${activeSection}`,
+        },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '🔄 Refresh',
+            },
+            action_id: 'refresh_status',
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '➕ Start Loop',
+            },
+            action_id: 'open_start_modal',
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '📝 Create Task',
+            },
+            action_id: 'open_task_modal',
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const TASK_STATUS_LABELS: Record<Task['status'], string> = {
+  pending: '⚪ Pending',
+  in_progress: '🔄 In progress',
+  complete: '✅ Complete',
+  skipped: '⏭️ Skipped',
+  error: '❌ Error',
+};
+
+// Slack rejects section text longer than 3000 characters
+const SECTION_TEXT_LIMIT = 3000;
+
+// As many lines as fit in one section, then a "+N more" line for the rest
+function fitLines(lines: string[], heading: string, overflow: (hidden: number) => string): string {
+  let text = heading;
+  for (let i = 0; i < lines.length; i++) {
+    const rest = lines.length - i - 1;
+    const reserve = rest > 0 ? overflow(rest).length + 1 : 0;
+    if (text.length + 1 + lines[i].length + reserve > SECTION_TEXT_LIMIT) {
+      return `${text}\n${overflow(lines.length - i)}`;
+    }
+    text += `\n${lines[i]}`;
+  }
+  return text;
+}
+
+export function loopDetailMessage(loop: Loop, tasks: Task[], dashboardUrl?: string | null) {
+  const repoUrl = `https://github.com/${loop.repo_owner}/${loop.repo_name}`;
+  
+  const taskLines = tasks.map(t => {
+    const pr = t.pr_number ? ` • PR <${repoUrl}/pull/${t.pr_number}|#${t.pr_number}>` : '';
+    const duration = t.started_at && t.completed_at
+      ? ` • ${formatDuration(Date.parse(t.completed_at) - Date.parse(t.started_at))}`
+      : '';
+    const error = t.error ? `\n    _${t.error.slice(0, 150)}_` : '';
+    return `• <${repoUrl}/issues/${t.issue_number}|#${t.issue_number}> - ${TASK_STATUS_LABELS[t.status]}${pr}${duration}${error}`;
+  });
+  const taskList = tasks.length > 0
+    ? fitLines(taskLines, '*Tasks:*', hidden => `_+${hidden} more${dashboardUrl ? ' - see the dashboard' : ''}_`)
+    : '*Tasks:*\n_No tasks picked up yet_';
+  
+  return {
+    text: `Loop ${loop.id.slice(0, 8)} on ${loop.repo_owner}/${loop.repo_name}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Loop* \`${loop.id.slice(0, 8)}\` on <${repoUrl}|${loop.repo_owner}/${loop.repo_name}>\n\nStatus: *${loop.status}* • Mode: ${loop.mode === 'approval' ? '✋ Approval' : '🤖 Auto'} • Iteration ${loop.iteration_current}/${loop.iteration_max}\nStarted by ${loopOwner(loop.started_by)}${loop.started_at ? ` at ${loop.started_at}` : ''}`,
+        },
+      },
+      {
+        type: 'divider',
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: taskList,
+        },
+      },
+      ...(dashboardUrl ? [{
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '📊 Logs in Dashboard',
+            },
+            url: dashboardUrl,
+            action_id: 'open_dashboard',
+          },
+        ],
+      }] : []),
+    ],
+  };
+}
+
+export function taskCreatedMessage(repo: string, issue: Issue) {
+  return {
+    text: `📝 Task created: ${issue.title}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `📝 *Task created* in \`${repo}\`\n\n<${issue.html_url}|#${issue.number}: ${issue.title}>`,
+        },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: '🚀 Start Loop Now',
+            },
+            action_id: 'start_loop_for_repo',
+            value: repo,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export function scheduleListMessage(schedules: Schedule[]) {
+  const list = schedules.length > 0
+    ? schedules.map(sc => {
+        const labels = sc.issue_labels ? ` • labels: ${(JSON.parse(sc.issue_labels) as string[]).map(l => `\`${l}\``).join(', ')}` : '';
+        const channel = sc.channel_id ? ` • <#${sc.channel_id}>` : ' • _no channel_';
+        const source = sc.source === 'config' ? ' • _config.yaml_' : '';
+        const lastRun = sc.last_run_at ? ` • last run ${sc.last_run_at}` : '';
+        return `• \`${sc.id}\` \`${sc.repo_owner}/${sc.repo_name}\` at \`${sc.cron}\` - ${sc.mode === 'approval' ? '✋ Approval' : '🤖 Auto'}, ${sc.iteration_max} iterations${labels}${channel}${source}${lastRun}`;
+      }).join('\n')
+    : '_No schedules_';
+  
+  return {
+    text: '⏰ Loop schedules',
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `⏰ *Loop schedules*\n\n${list}`,
+        },
+      },
+    ],
+  };
+}
+
+export function roleListMessage(admins: string[], operators: string[], grants: RoleGrant[]) {
+  const mentions = (ids: string[]) => ids.length > 0 ? ids.map(id => `<@${id}>`).join(', ') : '_none_';
+  
+  const grantList = grants.length > 0
+    ? grants.map(g => {
+        const expiry = g.expires_at ? `until ${g.expires_at}` : 'permanent';
+        return `• <@${g.user_id}> - ${g.role === 'admin' ? '👑 Admin' : '🔧 Operator'} (${expiry}, granted by <@${g.granted_by}>)`;
+      }).join('\n')
+    : '_No grants_';
+  
+  return {
+    text: '👥 Roles',
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `👥 *Roles*\n\n*From config.yaml*\n👑 Admins: ${mentions(admins)}\n🔧 Operators: ${mentions(operators)}`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Granted from Slack*\n${grantList}`,
+        },
+      },
+    ],
+  };
+}
+
+export function factoryKeyModal() {
+  return {
+    type: 'modal' as const,
+    callback_id: 'factory_key_modal',
+    title: {
+      type: 'plain_text' as const,
+      text: 'Factory API Key',
+    },
+    submit: {
+      type: 'plain_text' as const,
+      text: 'Save',
+    },
+    close: {
+      type: 'plain_text' as const,
+      text: 'Cancel',
+    },
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: 'Loops you start will run droid with this key. It is checked with a one-line droid prompt, then stored encrypted.',
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'key_block',
+        element: {
+          type: 'plain_text_input',
+          action_id: 'key_input',
+          placeholder: {
+            type: 'plain_text',
+            text: 'fac_...',
+          },
+        },
+        label: {
+          type: 'plain_text',
+          text: 'API key',
+        },
+      },
+    ],
+  };
+}
+
+// Replaces the key modal while the key is checked, and again with the outcome
+export function factoryKeyResultView(text: string) {
+  return {
+    type: 'modal' as const,
+    callback_id: 'factory_key_result',
+    title: {
+      type: 'plain_text' as const,
+      text: 'Factory API Key',
+    },
+    close: {
+      type: 'plain_text' as const,
+      text: 'Close',
+    },
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text,
+        },
+      },
+    ],
+  };
+}
+
+export function keyStatusMessage(stored: FactoryKey | null, usable: boolean, inConfig: boolean, hasDefault: boolean) {
+  let text: string;
+  if (stored && usable) {
+    text = `🔑 Your loops use your saved key (\`${stored.hint}\`, saved ${stored.updated_at.slice(0, 10)}).`;
+  } else if (stored) {
+    text = `⚠️ You have a saved key (\`${stored.hint}\`) but it can't be decrypted - ask an admin to check the master key, or save it again.`;
+  } else if (inConfig) {
+    text = '🔑 Your loops use the key set for you in config.yaml.';
+  } else if (hasDefault) {
+    text = '🔑 Your loops use the default key from config.yaml.';
+  } else {
+    text = "❌ You have no Factory key, so your loops can't run. Add one with `/loop key set`.";
+  }
+  
+  return {
+    text,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${text}\n\n\`/loop key set\` to save a key • \`/loop key remove\` to delete it`,
+        },
+      },
+    ],
+  };
+}
+
+const LOG_LEVEL_ICONS: Record<string, string> = {
+  info: '•',
+  warn: '⚠️',
+  error: '❌',
+};
+
+export function loopLogsMessage(loop: Loop, view: LogView, result: LogPage) {
+  const filters = [
+    view.level !== 'info' && `${view.level} and above`,
+    view.tail && `last ${view.tail}`,
+  ].filter(Boolean).join(', ');
+  
+  const lines = result.entries.map(e =>
+    `${LOG_LEVEL_ICONS[e.level] || '•'} \`${e.timestamp}\` ${truncate(e.message.replace(/\s+/g, ' '), 140)}`
+  );
+  
+  const pageButton = (text: string, actionId: string, page: number) => ({
+    type: 'button',
+    text: {
+      type: 'plain_text',
+      text,
+    },
+    action_id: actionId,
+    value: JSON.stringify({ ...view, page }),
+  });
+  
+  const buttons = [
+    ...(result.page > 0 ? [pageButton('◀ Newer', 'loop_logs_prev', result.page - 1)] : []),
+    ...(result.page < result.pages - 1 ? [pageButton('Older ▶', 'loop_logs_next', result.page + 1)] : []),
+    {
+      type: 'button',
+      text: {
+        type: 'plain_text',
+        text: '📥 Download full log',
+      },
+      action_id: 'loop_logs_download',
+      value: loop.id,
+    },
+  ];
+  
+  return {
+    text: `Logs for loop ${loop.id.slice(0, 8)}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `📜 *Logs* for loop \`${loop.id.slice(0, 8)}\` on \`${loop.repo_owner}/${loop.repo_name}\` (${loop.status})${filters ? ` - ${filters}` : ''}\n\n${lines.length > 0 ? lines.join('\n') : '_No log entries_'}`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Page ${result.page + 1} of ${result.pages} • ${result.total} ${result.total === 1 ? 'entry' : 'entries'}, newest page first`,
+          },
+        ],
+      },
+      {
+        type: 'actions',
+        elements: buttons,
+      },
+    ],
+  };
+}
+
+export type ConfigReloadResult =
+  | { ok: true; changes: string[]; needsRestart: string[] }
+  | { ok: false; error: string };
+
+export function configReloadMessage(result: ConfigReloadResult, fromFile = false) {
+  const trigger = fromFile ? ' after config.yaml changed' : '';
+  
+  if (!result.ok) {
+    return {
+      text: `❌ Config reload failed${trigger} - keeping the current config`,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `❌ *Config reload failed${trigger}* - nothing was applied, the bot keeps running with the current config.\n\`\`\`${truncate(result.error, 2800)}\`\`\``,
+          },
+        },
+      ],
+    };
+  }
+  
+  const changes = result.changes.length > 0
+    ? result.changes.map(c => `• \`${c}\``).join('\n')
+    : '_No changes_';
+  const restart = result.needsRestart.length > 0
+    ? `\n\n⚠️ These only take effect after a restart: ${result.needsRestart.map(k => `\`${k}\``).join(', ')}`
+    : '';
+  
+  return {
+    text: `✅ Config reloaded${trigger}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `✅ *Config reloaded${trigger}*\n\n${changes}${restart}`,
+        },
+      },
+    ],
+  };
+}
+
+// Most recent entries shown inline; the rest are in the export
+const AUDIT_PREVIEW_LIMIT = 15;
+
+function auditActor(actor: string): string {
+  return actor.startsWith('github:') ? `\`${actor}\`` : `<@${actor}>`;
+}
+
+export function auditLogMessage(entries: AuditEntry[], filters: string[]) {
+  const heading = `🧾 *Audit log*${filters.length > 0 ? ` - ${filters.join(', ')}` : ''}`;
+  
+  const lines = entries.slice(0, AUDIT_PREVIEW_LIMIT).map(e => {
+    const target = [
+      e.repo && `\`${e.repo}\``,
+      e.loop_id && `loop \`${e.loop_id.slice(0, 8)}\``,
+      e.issue_number && `#${e.issue_number}`,
+      e.pr_number && `PR #${e.pr_number}`,
+    ].filter(Boolean).join(' ');
+    return `• \`${e.timestamp.slice(0, 16).replace('T', ' ')}\` ${auditActor(e.actor)} *${e.action}* ${target} _(${e.source})_`;
+  });
+  
+  const footer = entries.length > AUDIT_PREVIEW_LIMIT
+    ? `Showing ${AUDIT_PREVIEW_LIMIT} of ${entries.length} entries. Add \`--export csv\` or \`--export json\` for all of them.`
+    : `${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}. Add \`--export csv\` or \`--export json\` to download.`;
+  
+  return {
+    text: '🧾 Audit log',
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${heading}\n\n${lines.length > 0 ? lines.join('\n') : '_No matching entries_'}`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: footer,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const USAGE_GROUP_LIMIT = 15;
+
+function usageSummary(totals: UsageTotals): string {
+  return [
+    `${totals.iterations} iteration${totals.iterations === 1 ? '' : 's'}`,
+    formatDuration(totals.duration_ms),
+    totals.credits > 0 && `${Math.round(totals.credits * 100) / 100} credits`,
+    totals.tokens > 0 && `${totals.tokens.toLocaleString('en-US')} tokens`,
+  ].filter(Boolean).join(', ');
+}
+
+export function usageMessage(totals: UsageTotals, byUser: UsageGroup[], byRepo: UsageGroup[], filters: string[]) {
+  const heading = `💸 *Usage* - ${filters.join(', ')}`;
+  
+  const section = (title: string, groups: UsageGroup[], label: (key: string) => string) => {
+    const lines = groups.slice(0, USAGE_GROUP_LIMIT).map(g => `• ${label(g.key)} - ${usageSummary(g)}`);
+    const more = groups.length > USAGE_GROUP_LIMIT ? `\n_…and ${groups.length - USAGE_GROUP_LIMIT} more_` : '';
+    return `*${title}*\n${lines.length > 0 ? lines.join('\n') : '_None_'}${more}`;
+  };
+  
+  return {
+    text: '💸 Usage',
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `${heading}\n\n*Total:* ${usageSummary(totals)}`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: section('By user', byUser, loopOwner),
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: section('By repo', byRepo, repo => `\`${repo}\``),
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: 'Time is droid run time. Credits and tokens are counted only when droid reports them. Days are UTC.',
+          },
+        ],
+      },
+    ],
+  };
+}
+
+const BUDGET_SCOPES: Record<BudgetExceeded['scope'], (loop: Loop) => string> = {
+  loop: () => 'this loop\'s budget',
+  user: loop => `the daily budget for ${loopOwner(loop.started_by)}`,
+  repo: loop => `the daily budget for \`${loop.repo_owner}/${loop.repo_name}\``,
+};
+
+export function budgetExceededMessage(loop: Loop, exceeded: BudgetExceeded) {
+  const used = exceeded.metric === 'minutes'
+    ? `${Math.round(exceeded.used)} of ${exceeded.limit} minutes`
+    : `${Math.round(exceeded.used * 100) / 100} of ${exceeded.limit} credits`;
+  
+  return {
+    text: `💸 Loop stopped: budget exceeded`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `💸 *Loop stopped* on \`${loop.repo_owner}/${loop.repo_name}\` after iteration ${loop.iteration_current}/${loop.iteration_max}\n\nIt has used up ${BUDGET_SCOPES[exceeded.scope](loop)}: ${used}.`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: exceeded.scope === 'loop'
+              ? 'Start a new loop to keep going, or ask an admin to raise `budgets.loop`.'
+              : 'Daily budgets reset at midnight UTC. See `/loop usage` for spend so far.',
+          },
+        ],
+      },
+    ],
+  };
+}
+
+export type LoopControlAction = 'stop' | 'approve' | 'approve_override' | 'skip' | 'resume' | 'retry' | 'request_changes';
+
+const LOOP_CONTROL_VERBS: Record<LoopControlAction, string> = {
+  stop: 'stop',
+  approve: 'approve',
+  approve_override: 'merge without green checks',
+  skip: 'skip the PR on',
+  resume: 'resume',
+  retry: 'retry',
+  request_changes: 'request changes on',
+};
+
+// Loops started by GitHub triggers have no Slack owner to mention
+export function loopOwner(startedBy: string): string {
+  return startedBy.startsWith('github:') ? `GitHub user \`${startedBy.slice('github:'.length)}\`` : `<@${startedBy}>`;
+}
+
+export function loopOwnerDeniedMessage(loop: Loop, action: LoopControlAction) {
+  return {
+    text: `🚫 This loop belongs to ${loopOwner(loop.started_by)}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `🚫 The loop on \`${loop.repo_owner}/${loop.repo_name}\` belongs to ${loopOwner(loop.started_by)}. Only they or an admin can ${LOOP_CONTROL_VERBS[action]} it.`,
+        },
+      },
+    ],
+  };
+}
+
+export function loopControlConfirmMessage(loop: Loop, action: LoopControlAction) {
+  return {
+    text: `⚠️ This loop belongs to ${loopOwner(loop.started_by)} - are you sure?`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `⚠️ The loop on \`${loop.repo_owner}/${loop.repo_name}\` belongs to ${loopOwner(loop.started_by)}. Are you sure you want to ${LOOP_CONTROL_VERBS[action]} it?`,
+        },
+      },
+      {
+        type: 'actions',
+        elements: [
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: 'Yes, go ahead',
+            },
+            style: action === 'stop' || action === 'approve_override' ? 'danger' : 'primary',
+            action_id: 'confirm_loop_control',
+            value: JSON.stringify({ loopId: loop.id, action }),
+          },
+          {
+            type: 'button',
+            text: {
+              type: 'plain_text',
+              text: 'Cancel',
+            },
+            action_id: 'cancel_loop_control',
           },
         ],
       },
@@ -0,0 +1,130 @@
+import { createServer, type Server } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getConfig, getRepo } from './config.js';
+import type { LoopMode } from './db.js';
+
+export interface WebhookTrigger {
+  owner: string;
+  name: string;
+  issueNumber: number;
+  // GitHub login of whoever labelled or commented
+  sender: string;
+  reason: 'label' | 'comment';
+  mode?: LoopMode;
+  iterations?: number;
+}
+
+type TriggerHandler = (trigger: WebhookTrigger) => Promise<void>;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+// Only people with a stake in the repo may start loops by commenting
+const TRUSTED_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR'];
+
+export function verifySignature(secret: string, payload: Buffer, signature: string | undefined): boolean {
+  if (!signature?.startsWith('sha256=')) return false;
+  
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+// "/loop", "/loop approval", "/loop auto 5" - mode and iteration count in any order
+function parseLoopComment(body: string): { mode?: LoopMode; iterations?: number } | null {
+  const line = body.trim().split('\n')[0].trim();
+  if (line !== '/loop' && !line.startsWith('/loop ')) return null;
+  
+  const options: { mode?: LoopMode; iterations?: number } = {};
+  for (const word of line.split(/\s+/).slice(1)) {
+    if (word === 'auto' || word === 'approval') options.mode = word;
+    else if (/^\d+$/.test(word)) options.iterations = parseInt(word, 10);
+  }
+  return options;
+}
+
+/**
+ * Turns an `issues.labeled` or `issue_comment.created` delivery into a loop
+ * trigger, or null if it isn't one (other labels, PR comments, untrusted or
+ * bot commenters, repos that aren't configured).
+ */
+export function parseTrigger(event: string, payload: any): WebhookTrigger | null {
+  const owner = payload.repository?.owner?.login;
+  const name = payload.repository?.name;
+  const issue = payload.issue;
+  if (!owner || !name || !issue || issue.pull_request) return null;
+  if (!getRepo(owner, name)) return null;
+  
+  const base = { owner, name, issueNumber: issue.number as number, sender: payload.sender?.login || 'unknown' };
+  
+  if (event === 'issues' && payload.action === 'labeled') {
+    if (payload.label?.name !== getConfig().webhook.trigger_label) return null;
+    return { ...base, reason: 'label' };
+  }
+  
+  if (event === 'issue_comment' && payload.action === 'created') {
+    const comment = payload.comment;
+    if (!comment || comment.user?.type === 'Bot') return null;
+    if (!TRUSTED_ASSOCIATIONS.includes(comment.author_association)) return null;
+    
+    const options = parseLoopComment(comment.body || '');
+    if (!options) return null;
+    return { ...base, reason: 'comment', ...options };
+  }
+  
+  return null;
+}
+
+export function startWebhookServer(onTrigger: TriggerHandler): Server {
+  const { webhook } = getConfig();
+  
+  const server = createServer((req, res) => {
+    if (req.method !== 'POST' || req.url?.split('?')[0] !== webhook.path) {
+      res.writeHead(404).end();
+      return;
+    }
+    
+    const chunks: Buffer[] = [];
+    let size = 0;
+    
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        res.writeHead(413).end();
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    
+    req.on('end', () => {
+      if (res.writableEnded) return;
+      const payload = Buffer.concat(chunks);
+      
+      // Read per request so a reload can rotate the secret. ConfigSchema refuses
+      // webhook.enabled without one, but a reload may have turned the webhook off.
+      const { secret } = getConfig().webhook;
+      if (!secret || !verifySignature(secret, payload, req.headers['x-hub-signature-256'] as string | undefined)) {
+        res.writeHead(401).end('Invalid signature');
+        return;
+      }
+      
+      let trigger: WebhookTrigger | null = null;
+      try {
+        trigger = parseTrigger(req.headers['x-github-event'] as string, JSON.parse(payload.toString('utf-8')));
+      } catch {
+        res.writeHead(400).end('Invalid JSON');
+        return;
+      }
+      
+      // Answer GitHub straight away - starting a loop takes longer than its timeout
+      res.writeHead(trigger ? 202 : 204).end();
+      
+      if (trigger) {
+        onTrigger(trigger).catch(err => console.error('Webhook trigger failed:', err));
+      }
+    });
+  });
+  
+  server.listen(webhook.port);
+  return server;
+}
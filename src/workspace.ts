@@ -0,0 +1,93 @@
+import { spawn } from 'child_process';
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import { join, resolve } from 'path';
+
+const WORKSPACE_DIR = './workspaces';
+// One bare clone per repo holds the shared object store
+const CACHE_DIR = join(WORKSPACE_DIR, 'cache');
+// Each loop gets its own worktree on top of it
+const LOOPS_DIR = join(WORKSPACE_DIR, 'loops');
+
+// Serializes git operations on a repo's shared cache (fetch and worktree add/remove take locks)
+const repoLocks = new Map<string, Promise<unknown>>();
+
+function withRepoLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const previous = repoLocks.get(key) || Promise.resolve();
+  const next = previous.catch(() => {}).then(fn);
+  repoLocks.set(key, next);
+  return next;
+}
+
+function cachePath(owner: string, repo: string): string {
+  return resolve(CACHE_DIR, `${owner}-${repo}.git`);
+}
+
+export function workspacePath(loopId: string): string {
+  return resolve(LOOPS_DIR, loopId);
+}
+
+/**
+ * Returns a worktree for the loop, checked out (detached) at the latest
+ * origin/<branch>. The worktree is created on first use and reset on later calls.
+ */
+export async function ensureWorkspace(loopId: string, owner: string, repo: string, branch: string): Promise<string> {
+  const cacheDir = cachePath(owner, repo);
+  const dir = workspacePath(loopId);
+  
+  await withRepoLock(cacheDir, async () => {
+    mkdirSync(CACHE_DIR, { recursive: true });
+    mkdirSync(LOOPS_DIR, { recursive: true });
+    
+    if (!existsSync(cacheDir)) {
+      await execCommand(`git clone --bare https://github.com/${owner}/${repo}.git ${cacheDir}`);
+      // Bare clones don't track remote branches by default
+      await execCommand(`git config remote.origin.fetch '+refs/heads/*:refs/remotes/origin/*'`, { cwd: cacheDir });
+    }
+    await execCommand('git fetch origin', { cwd: cacheDir });
+    
+    if (!existsSync(dir)) {
+      // Drop registrations for worktrees whose directories were removed by hand
+      await execCommand('git worktree prune', { cwd: cacheDir });
+      await execCommand(`git worktree add --detach ${dir} origin/${branch}`, { cwd: cacheDir });
+    }
+  });
+  
+  // Detach rather than reset so any branch the agent created keeps pointing at its own work
+  await execCommand(`git checkout --detach --force origin/${branch} && git clean -fd`, { cwd: dir });
+  return dir;
+}
+
+export async function removeWorkspace(loopId: string, owner: string, repo: string): Promise<void> {
+  const cacheDir = cachePath(owner, repo);
+  const dir = workspacePath(loopId);
+  if (!existsSync(dir)) return;
+  
+  await withRepoLock(cacheDir, async () => {
+    try {
+      await execCommand(`git worktree remove --force ${dir}`, { cwd: cacheDir });
+    } catch {
+      rmSync(dir, { recursive: true, force: true });
+      if (existsSync(cacheDir)) {
+        await execCommand('git worktree prune', { cwd: cacheDir });
+      }
+    }
+  });
+}
+
+function execCommand(cmd: string, options?: { cwd?: string }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const proc = spawn('sh', ['-c', cmd], { cwd: options?.cwd });
+    const output: string[] = [];
+    
+    proc.stdout?.on('data', (data) => output.push(data.toString()));
+    proc.stderr?.on('data', (data) => output.push(data.toString()));
+    
+    proc.on('close', (code) => {
+      if (code === 0) {
+        resolve(output.join(''));
+      } else {
+        reject(new Error(`Command failed: ${cmd}\n${output.join('')}`));
+      }
+    });
+  });
+}